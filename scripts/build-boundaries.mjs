@@ -0,0 +1,100 @@
+/**
+ * Builds the census-division and FSA boundary files for the map's Regions
+ * layer from the Statistics Canada 2021 cartographic boundary files.
+ *
+ *   bun run boundaries            # both levels
+ *   bun run boundaries fsa        # one level
+ *
+ * Output goes to public/boundaries/ (see the README there); commit it.
+ */
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import mapshaper from 'mapshaper'
+
+const STATCAN_BASE =
+  'https://www12.statcan.gc.ca/census-recensement/2021/geo/sip-pis/boundary-limites/files-fichiers'
+
+/** Province/territory abbreviations by StatCan PRUID, to disambiguate CD names */
+const PROVINCE_ABBR = {
+  10: 'NL',
+  11: 'PE',
+  12: 'NS',
+  13: 'NB',
+  24: 'QC',
+  35: 'ON',
+  46: 'MB',
+  47: 'SK',
+  48: 'AB',
+  59: 'BC',
+  60: 'YT',
+  61: 'NT',
+  62: 'NU',
+}
+
+const LEVELS = {
+  censusDivision: {
+    archive: 'lcd_000b21a_e.zip',
+    output: 'census-divisions.geojson',
+    name: `CDNAME + ', ' + (${JSON.stringify(PROVINCE_ABBR)})[PRUID]`,
+    simplify: '3%',
+  },
+  fsa: {
+    archive: 'lfsa000b21a_e.zip',
+    output: 'fsa.geojson',
+    name: 'CFSAUID',
+    simplify: '2%',
+  },
+}
+
+const outDir = new URL('../public/boundaries/', import.meta.url).pathname
+
+const build = async (key, workDir) => {
+  const level = LEVELS[key]
+  const archive = join(workDir, level.archive)
+  const output = join(outDir, level.output)
+
+  console.log(`Downloading ${level.archive}…`)
+  const response = await fetch(`${STATCAN_BASE}/${level.archive}`)
+  if (!response.ok) throw new Error(`${level.archive}: HTTP ${response.status}`)
+  await writeFile(archive, Buffer.from(await response.arrayBuffer()))
+
+  // Source is Lambert conformal conic; the map expects WGS 84 [lon, lat]
+  await mapshaper.runCommands([
+    '-i',
+    archive,
+    '-proj',
+    'wgs84',
+    '-simplify',
+    level.simplify,
+    'keep-shapes',
+    '-clean',
+    '-each',
+    `name = ${level.name}`,
+    '-filter-fields',
+    'name',
+    '-o',
+    output,
+    'format=geojson',
+    'precision=0.001',
+  ])
+  const { size } = await stat(output)
+  console.log(`Wrote ${level.output} (${Math.round(size / 1024)} KB)`)
+}
+
+const requested = process.argv.slice(2)
+const keys = requested.length ? requested : Object.keys(LEVELS)
+const unknown = keys.filter((key) => !(key in LEVELS))
+if (unknown.length) {
+  console.error(
+    `Unknown level(s): ${unknown.join(', ')}. Expected ${Object.keys(LEVELS).join(', ')}`,
+  )
+  process.exit(1)
+}
+
+const workDir = await mkdtemp(join(tmpdir(), 'boundaries-'))
+try {
+  for (const key of keys) await build(key, workDir)
+} finally {
+  await rm(workDir, { recursive: true, force: true })
+}
@@ -0,0 +1,163 @@
+/**
+ * Local stand-in for the outage API, for exercising the map (and its live
+ * mode) without a backend:
+ *
+ *   bun run mock:api
+ *   VITE_BASE_API_URL=http://localhost:8787 bun dev
+ *
+ * Serves ref/data/outages.json shifted to end at server start, and a
+ * /outages/stream SSE feed that replays the sample blocks at the timeline head,
+ * one per tick, ending the outages that drop out.
+ *
+ * Environment:
+ *   MOCK_PORT          port (8787)
+ *   MOCK_TICK_S        seconds between stream messages (10)
+ *   MOCK_STREAM_FAIL   reject this many stream connections with 503 first (0),
+ *                      to watch the client back off and reconnect
+ */
+import { readFile } from 'node:fs/promises'
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.MOCK_PORT ?? 8787)
+const TICK_S = Number(process.env.MOCK_TICK_S ?? 10)
+let streamFailures = Number(process.env.MOCK_STREAM_FAIL ?? 0)
+
+/** Stream replays get fresh ids, clear of the history's */
+const REPLAY_ID_OFFSET = 1_000_000
+
+const INTERVAL_S = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '30m': 1800,
+  '1h': 3600,
+  '24h': 86400,
+}
+
+const sample = JSON.parse(
+  await readFile(new URL('../ref/data/outages.json', import.meta.url), 'utf8'),
+)
+const sampleBlocks = Object.values(sample.blocks).sort((a, b) => a.ts - b.ts)
+const providers = [...new Set(sample.outages.map((o) => o.provider).filter(Boolean))].sort()
+
+const startedAt = Math.floor(Date.now() / 1000)
+const shift = Math.floor(startedAt / 3600) * 3600 - sampleBlocks[sampleBlocks.length - 1].ts
+
+const shiftTs = (ts) => (ts === null ? null : ts + shift)
+const shiftOutage = (o) => ({ ...o, startTs: shiftTs(o.startTs), endTs: shiftTs(o.endTs) })
+
+/** OutageResponse for the given blocks, re-indexed against just the outages they reference */
+const respond = (blocks, outagesOf, interval) => {
+  const outages = []
+  const localIndex = new Map()
+  const out = blocks.map((block) => {
+    const indexes = outagesOf(block).map((outage) => {
+      if (!localIndex.has(outage.id)) {
+        localIndex.set(outage.id, outages.length)
+        outages.push(outage)
+      }
+      return localIndex.get(outage.id)
+    })
+    return { ts: block.ts, indexes, count: indexes.length }
+  })
+  const counts = out.map((b) => b.count)
+  return {
+    outages,
+    blocks: out,
+    timeInterval: interval,
+    startTs: out[0]?.ts ?? 0,
+    endTs: out[out.length - 1]?.ts ?? 0,
+    minCount: counts.length ? Math.min(...counts) : 0,
+    maxCount: counts.length ? Math.max(...counts) : 0,
+  }
+}
+
+const history = (start, end, interval) =>
+  respond(
+    sampleBlocks
+      .map((b) => ({ ...b, ts: b.ts + shift }))
+      .filter((b) => b.ts >= start && b.ts <= end),
+    (block) => block.indexes.map((i) => shiftOutage(sample.outages[i])),
+    interval,
+  )
+
+/** Replay state shared by every stream connection */
+const replay = { tick: 0, open: new Map() }
+
+/** Advance the replay one sample block; returns the delta for the head block */
+const nextDelta = (interval) => {
+  const step = INTERVAL_S[interval] ?? 900
+  const now = Math.floor(Date.now() / 1000)
+  const headTs = Math.floor(now / step) * step
+  const cycle = Math.floor(replay.tick / sampleBlocks.length) + 1
+  const source = sampleBlocks[replay.tick % sampleBlocks.length]
+  replay.tick++
+
+  const current = new Map()
+  for (const i of source.indexes) {
+    const id = sample.outages[i].id + cycle * REPLAY_ID_OFFSET
+    const outage = replay.open.get(id) ?? { ...sample.outages[i], id, startTs: now, endTs: null }
+    current.set(id, outage)
+  }
+  const ended = [...replay.open.values()]
+    .filter((o) => !current.has(o.id))
+    .map((o) => ({ ...o, endTs: now }))
+  replay.open = current
+
+  const data = respond([{ ts: headTs }], () => [...current.values()], interval)
+  data.outages.push(...ended)
+  return data
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`)
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  const interval = url.searchParams.get('interval') ?? '15m'
+
+  if (url.pathname === '/outages/stream') {
+    if (streamFailures > 0) {
+      streamFailures--
+      console.log(`stream: rejected (${streamFailures} more)`)
+      return send(res, 503, { error: 'Mock stream unavailable' })
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    console.log(`stream: open (since ${url.searchParams.get('since')})`)
+    const timer = setInterval(() => {
+      res.write(`data: ${JSON.stringify(nextDelta(interval))}\n\n`)
+    }, TICK_S * 1000)
+    req.on('close', () => {
+      clearInterval(timer)
+      console.log('stream: closed')
+    })
+    return
+  }
+
+  if (url.pathname === '/outages') {
+    const start = Number(url.searchParams.get('start') ?? 0)
+    const end = Number(url.searchParams.get('end') ?? startedAt)
+    return send(res, 200, history(start, end, interval))
+  }
+
+  const byId = url.pathname.match(/^\/outages\/(\d+)$/)
+  if (byId) {
+    const outage = sample.outages.find((o) => o.id === Number(byId[1]))
+    return outage
+      ? send(res, 200, { id: outage.id, outage: shiftOutage(outage) })
+      : send(res, 404, { error: 'Not found' })
+  }
+
+  if (url.pathname === '/v1/providers') return send(res, 200, { providers })
+
+  send(res, 404, { error: 'Not found' })
+})
+
+server.listen(PORT, () => console.log(`Mock outage API on http://localhost:${PORT}`))
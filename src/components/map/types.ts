@@ -1,6 +1,6 @@
 import type { Polygon, MultiPolygon } from 'geojson'
 import type { BoundsLiteral, GroupedOutage } from '@/lib/utils'
-import type { UserOutageReport } from '@/types/userOutage'
+import type { ReportCorroboration, UserOutageReport } from '@/types/userOutage'
 
 // Re-export for convenience
 export type { BoundsLiteral }
@@ -21,6 +21,10 @@ export type PopupItem = {
   reportedAt?: string | null
   /** 'outage' (default) or 'userOutage' — used for feedback targetType */
   targetType?: 'outage' | 'userOutage'
+  /** User reports: official outages the report was linked to */
+  corroboration?: ReportCorroboration
+  /** Official outages: user reports linked to this outage */
+  linkedReportCount?: number
 }
 
 export type PopupData = {
@@ -57,4 +61,53 @@ export type ReportMarkerData = {
   lng: number
   count: number
   reports: UserOutageReport[]
+  /** Reports in this marker with no official outage nearby */
+  unconfirmedCount: number
+}
+
+/** Toggleable map layers (also the values of the `layers` URL param) */
+export type MapLayerKey =
+  | 'markers'
+  | 'polygons'
+  | 'choropleth'
+  | 'reports'
+  | 'suspected'
+  | 'heatmap'
+  | 'weather'
+  | 'minimap'
+
+/** What each outage contributes to the heatmap: 1 per outage, or its customers affected */
+export type HeatmapWeighting = 'count' | 'customers'
+
+/** Administrative boundaries the choropleth aggregates into */
+export type ChoroplethLevel = 'province' | 'censusDivision' | 'fsa'
+
+/** What each region is shaded by */
+export type ChoroplethMetric = 'customers' | 'count'
+
+/** User-adjustable choropleth options */
+export type ChoroplethSettings = {
+  level: ChoroplethLevel
+  metric: ChoroplethMetric
+}
+
+/** User-adjustable heatmap options */
+export type HeatmapSettings = {
+  radius: number
+  blur: number
+  weighting: HeatmapWeighting
+}
+
+/** Current map camera, emitted after every pan/zoom */
+export type MapViewState = {
+  lat: number
+  lng: number
+  zoom: number
+}
+
+/** Camera move requested by the parent (storm replay); durationMs 0 jumps */
+export type MapCamera = {
+  bounds: BoundsLiteral
+  zoom: number
+  durationMs: number
 }
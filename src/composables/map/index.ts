@@ -3,5 +3,10 @@ export * from './useMapControls'
 export * from './useMinimap'
 export * from './usePlayback'
 export * from './useWeatherLayer'
+export * from './useHeatLayer'
+export * from './useChoroplethLayer'
 export * from './useClusterBuckets'
 export * from './useClusterTransitions'
+export * from './useMapUrlState'
+export * from './useStormReplay'
+export * from './useSuspectedOutageLayer'
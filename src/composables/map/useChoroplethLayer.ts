@@ -0,0 +1,202 @@
+/**
+ * Regional choropleth: aggregates the selected block's outages into bundled
+ * administrative boundaries (provinces, census divisions or FSAs) and shades
+ * each region by customers affected or outage count.
+ */
+import L from 'leaflet'
+import { ref, watch } from 'vue'
+import type { Ref, ShallowRef } from 'vue'
+import type { FeatureCollection } from 'geojson'
+import type { Outage } from '@/types/outage'
+import type { ChoroplethSettings } from '../../components/map/types'
+import { CHOROPLETH_FILL_OPACITY, getMapColors, logDevError } from '../../config/map'
+import {
+  aggregateByRegion,
+  colorForValue,
+  loadRegionBoundaries,
+  metricValue,
+  quantileBreaks,
+  type RegionFeature,
+  type RegionTotals,
+} from '@/lib/choropleth'
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface UseChoroplethLayerOptions {
+  map: ShallowRef<L.Map | null>
+  showChoropleth: Ref<boolean>
+  /** Outages in the selected timeline block */
+  outages: Ref<Outage[]>
+  settings: Ref<ChoroplethSettings>
+}
+
+export interface ChoroplethLayerRefs {
+  choroplethLayer: Ref<L.GeoJSON | null>
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+const escapeHtml = (str: string): string =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const buildRegionTooltip = (region: RegionFeature, totals: RegionTotals | undefined): string => {
+  const customers = totals?.customers ?? 0
+  const outages = totals?.outages ?? 0
+  return `
+    <div class="map-tooltip">
+      <strong>${escapeHtml(region.properties?.name ?? 'Unnamed region')}</strong>
+      <span>${customers.toLocaleString()} customers · ${outages.toLocaleString()} ${outages === 1 ? 'outage' : 'outages'}</span>
+    </div>
+  `
+}
+
+// ─────────────────────────────────────────────────────────────
+// Composable
+// ─────────────────────────────────────────────────────────────
+export function useChoroplethLayer(options: UseChoroplethLayerOptions, refs: ChoroplethLayerRefs) {
+  const { map, showChoropleth, outages, settings } = options
+  const { choroplethLayer } = refs
+
+  /** Lower bound of each legend class for the current data */
+  const breaks = ref<number[]>([])
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  let regions: RegionFeature[] = []
+  let loadedLevel: ChoroplethSettings['level'] | null = null
+  let totals = new Map<RegionFeature, RegionTotals>()
+  let renderGeneration = 0
+
+  // ── Hover tooltip (raw DOM, same approach as the marker layer) ──
+  let tooltipEl: HTMLDivElement | null = null
+
+  const hideTooltip = () => {
+    if (tooltipEl) tooltipEl.style.display = 'none'
+  }
+
+  const showTooltip = (activeMap: L.Map, region: RegionFeature, point: L.Point) => {
+    if (!tooltipEl?.parentElement) {
+      tooltipEl = document.createElement('div')
+      tooltipEl.className = 'leaflet-tooltip leaflet-tooltip-top map-tooltip-container'
+      tooltipEl.style.pointerEvents = 'none'
+      tooltipEl.style.transform = 'translate(-50%, -100%)'
+      activeMap.getPane('tooltipPane')?.appendChild(tooltipEl)
+      activeMap.on('zoomstart', hideTooltip)
+    }
+    tooltipEl.innerHTML = buildRegionTooltip(region, totals.get(region))
+    tooltipEl.style.left = `${point.x}px`
+    tooltipEl.style.top = `${point.y - 12}px`
+    tooltipEl.style.display = ''
+  }
+
+  const styleRegion = (region: RegionFeature | undefined): L.PathOptions => {
+    const color = region
+      ? colorForValue(metricValue(totals.get(region), settings.value.metric), breaks.value)
+      : null
+    return {
+      color: getMapColors().brandDark,
+      weight: 0.75,
+      opacity: 0.5,
+      fillColor: color ?? 'transparent',
+      fillOpacity: color ? CHOROPLETH_FILL_OPACITY : 0,
+    }
+  }
+
+  const removeLayer = () => {
+    hideTooltip()
+    if (choroplethLayer.value) {
+      choroplethLayer.value.remove()
+      choroplethLayer.value = null
+    }
+  }
+
+  const buildLayer = (activeMap: L.Map) => {
+    removeLayer()
+    const collection: FeatureCollection = { type: 'FeatureCollection', features: regions }
+    const layer = L.geoJSON(collection, {
+      style: (feature) => styleRegion(feature as RegionFeature | undefined),
+    })
+    layer.on('mousemove', (event: L.LeafletMouseEvent) => {
+      const region = (event.propagatedFrom as L.Polygon | undefined)?.feature as
+        | RegionFeature
+        | undefined
+      if (region) showTooltip(activeMap, region, event.layerPoint)
+    })
+    layer.on('mouseout', hideTooltip)
+    layer.addTo(activeMap)
+    // Keep outage boundaries and markers above the regional shading
+    layer.bringToBack()
+    choroplethLayer.value = layer
+  }
+
+  /** Load boundaries if needed, re-aggregate and restyle */
+  const render = async () => {
+    const gen = ++renderGeneration
+    const activeMap = map.value
+    if (!activeMap || !showChoropleth.value) return
+
+    const level = settings.value.level
+    if (level !== loadedLevel) {
+      isLoading.value = true
+      error.value = null
+      let loaded: RegionFeature[]
+      try {
+        loaded = await loadRegionBoundaries(level)
+      } catch (err) {
+        if (gen !== renderGeneration) return
+        logDevError(`Choropleth boundaries (${level})`, err)
+        error.value = 'Region boundaries are unavailable.'
+        isLoading.value = false
+        regions = []
+        loadedLevel = null
+        removeLayer()
+        return
+      }
+      // A newer render (e.g. another level) superseded this one
+      if (gen !== renderGeneration) return
+      isLoading.value = false
+      regions = loaded
+      loadedLevel = level
+      removeLayer()
+      if (!showChoropleth.value) return
+    }
+
+    totals = aggregateByRegion(regions, outages.value)
+    breaks.value = quantileBreaks(
+      [...totals.values()].map((entry) => metricValue(entry, settings.value.metric)),
+    )
+
+    if (!choroplethLayer.value) buildLayer(activeMap)
+    else choroplethLayer.value.setStyle((feature) => styleRegion(feature as RegionFeature))
+  }
+
+  /** Toggle layer visibility */
+  const setVisible = (visible: boolean) => {
+    if (visible) render()
+    else removeLayer()
+  }
+
+  watch(outages, () => render())
+  watch(settings, () => render(), { deep: true })
+
+  /** Cleanup: remove the layer and tooltip */
+  const cleanup = () => {
+    renderGeneration++
+    removeLayer()
+    tooltipEl?.remove()
+    tooltipEl = null
+    map.value?.off('zoomstart', hideTooltip)
+  }
+
+  return {
+    breaks,
+    isLoading,
+    error,
+    setVisible,
+    cleanup,
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Outage density heatmap using leaflet.heat.
+ *
+ * Follows the timeline block (the outages passed in) and weights each outage
+ * either as one unit or by its customers affected. The plugin registers itself
+ * on the global `L`, so it is imported lazily once MapComp has exposed it.
+ *
+ * @see https://github.com/Leaflet/Leaflet.heat
+ */
+import type L from 'leaflet'
+import { watch } from 'vue'
+import type { Ref, ShallowRef } from 'vue'
+import type { Outage } from '@/types/outage'
+import type { HeatmapSettings } from '../../components/map/types'
+import {
+  HEATMAP_MAX_ZOOM,
+  HEATMAP_MAX_INTENSITY,
+  HEATMAP_CUSTOMERS_PER_UNIT,
+  logDevError,
+} from '../../config/map'
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface UseHeatLayerOptions {
+  map: ShallowRef<L.Map | null>
+  showHeatmap: Ref<boolean>
+  /** Outages in the selected timeline block */
+  outages: Ref<Outage[]>
+  settings: Ref<HeatmapSettings>
+}
+
+export interface HeatLayerRefs {
+  heatLayer: Ref<L.HeatLayer | null>
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/** Convert outages to weighted heat points; outages without weight are skipped */
+export function toHeatPoints(
+  outages: Outage[],
+  weighting: HeatmapSettings['weighting'],
+): L.HeatLatLngTuple[] {
+  const points: L.HeatLatLngTuple[] = []
+  for (const outage of outages) {
+    const weight =
+      weighting === 'customers' ? (outage.customerCount ?? 0) / HEATMAP_CUSTOMERS_PER_UNIT : 1
+    if (weight > 0) points.push([outage.latitude, outage.longitude, weight])
+  }
+  return points
+}
+
+// ─────────────────────────────────────────────────────────────
+// Composable
+// ─────────────────────────────────────────────────────────────
+export function useHeatLayer(options: UseHeatLayerOptions, refs: HeatLayerRefs) {
+  const { map, showHeatmap, outages, settings } = options
+  const { heatLayer } = refs
+
+  let pluginLoad: Promise<boolean> | null = null
+
+  /** Load leaflet.heat once; resolves false if the plugin failed to load */
+  const loadPlugin = (): Promise<boolean> => {
+    pluginLoad ??= import('leaflet.heat')
+      .then(() => true)
+      .catch((error) => {
+        logDevError('leaflet.heat import', error)
+        pluginLoad = null
+        return false
+      })
+    return pluginLoad
+  }
+
+  const layerOptions = (): L.HeatMapOptions => ({
+    radius: settings.value.radius,
+    blur: settings.value.blur,
+    maxZoom: HEATMAP_MAX_ZOOM,
+    max: HEATMAP_MAX_INTENSITY,
+    minOpacity: 0.3,
+  })
+
+  /** Push the current outages into the layer (no-op while hidden) */
+  const syncPoints = () => {
+    if (!showHeatmap.value || !heatLayer.value) return
+    heatLayer.value.setLatLngs(toHeatPoints(outages.value, settings.value.weighting))
+  }
+
+  /** Toggle layer visibility, creating the layer on first show */
+  const setVisible = async (visible: boolean) => {
+    const activeMap = map.value
+    if (!activeMap) return
+
+    if (!visible) {
+      if (heatLayer.value && activeMap.hasLayer(heatLayer.value)) {
+        activeMap.removeLayer(heatLayer.value)
+      }
+      return
+    }
+
+    if (!heatLayer.value) {
+      if (!(await loadPlugin())) return
+      // Toggled off or unmounted while the plugin was loading
+      if (!showHeatmap.value || map.value !== activeMap) return
+      const globalL = (window as unknown as { L: typeof L }).L
+      heatLayer.value = globalL.heatLayer([], layerOptions())
+    }
+    if (!activeMap.hasLayer(heatLayer.value)) heatLayer.value.addTo(activeMap)
+    syncPoints()
+  }
+
+  watch(outages, syncPoints)
+  watch(
+    () => settings.value.weighting,
+    () => syncPoints(),
+  )
+  watch(
+    () => [settings.value.radius, settings.value.blur],
+    () => heatLayer.value?.setOptions(layerOptions()),
+  )
+
+  /** Cleanup: remove the layer from the map */
+  const cleanup = () => {
+    if (heatLayer.value) {
+      heatLayer.value.remove()
+      heatLayer.value = null
+    }
+  }
+
+  return {
+    setVisible,
+    cleanup,
+  }
+}
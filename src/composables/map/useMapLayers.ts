@@ -111,6 +111,18 @@ export const createCircleMarkerOptions = (count: number): L.CircleMarkerOptions
   }
 }
 
+/** Outage polygon style, shared by the map's GeoJSON layer and the video export */
+export const createOutagePolygonStyle = (): L.PathOptions => {
+  const c = getMapColors()
+  return {
+    color: c.brand,
+    fillColor: c.brandFill,
+    weight: 2,
+    opacity: 0.9,
+    fillOpacity: 0.4,
+  }
+}
+
 /** Lightweight text label for cluster counts (used with CircleMarkers) */
 export const createClusterLabelIcon = (count: number): L.DivIcon => {
   const size = getCircleMarkerRadius(count) * 2
@@ -126,24 +138,30 @@ export const createClusterLabelIcon = (count: number): L.DivIcon => {
 // User Report Icon Factories (violet theme)
 // ─────────────────────────────────────────────────────────────
 let _cachedReportMarkerIcon: L.DivIcon | null = null
-export const createReportMarkerIcon = (): L.DivIcon => {
-  if (_cachedReportMarkerIcon) return _cachedReportMarkerIcon
-  _cachedReportMarkerIcon = L.divIcon({
+let _cachedUnconfirmedReportMarkerIcon: L.DivIcon | null = null
+/** Unconfirmed reports (no official outage nearby) get a dashed warning ring */
+export const createReportMarkerIcon = (unconfirmed = false): L.DivIcon => {
+  const cached = unconfirmed ? _cachedUnconfirmedReportMarkerIcon : _cachedReportMarkerIcon
+  if (cached) return cached
+  const icon = L.divIcon({
     html: `
       <div class="report-marker-pulse"></div>
       ${boltSvg('report-marker-bolt')}
     `,
-    className: 'map-report-marker',
+    className: `map-report-marker${unconfirmed ? ' map-report-marker--unconfirmed' : ''}`,
     iconSize: [22, 28],
     iconAnchor: [11, 14],
     popupAnchor: [0, -14],
   })
-  return _cachedReportMarkerIcon
+  if (unconfirmed) _cachedUnconfirmedReportMarkerIcon = icon
+  else _cachedReportMarkerIcon = icon
+  return icon
 }
 
-export const createReportClusterIcon = (count: number): L.DivIcon => {
+export const createReportClusterIcon = (count: number, unconfirmed = false): L.DivIcon => {
   const size = count >= 100 ? 52 : count >= 20 ? 44 : count >= 5 ? 36 : 28
   const sizeClass = count >= 100 ? 'xl' : count >= 20 ? 'lg' : count >= 5 ? 'md' : 'sm'
+  const stateClass = unconfirmed ? ' map-report-cluster--unconfirmed' : ''
   return L.divIcon({
     html: `
       <div class="report-cluster-ring"></div>
@@ -151,23 +169,27 @@ export const createReportClusterIcon = (count: number): L.DivIcon => {
         <span class="cluster-count">${count}</span>
       </div>
     `,
-    className: `map-report-cluster map-report-cluster--${sizeClass}`,
+    className: `map-report-cluster map-report-cluster--${sizeClass}${stateClass}`,
     iconSize: [size, size],
     iconAnchor: [size / 2, size / 2],
     popupAnchor: [0, -size / 2],
   })
 }
 
-export const createReportCircleMarkerOptions = (count: number): L.CircleMarkerOptions => {
+export const createReportCircleMarkerOptions = (
+  count: number,
+  unconfirmed = false,
+): L.CircleMarkerOptions => {
   const c = getMapColors()
   const color = count > 1 ? c.reportCluster : c.report
   return {
     radius: getCircleMarkerRadius(count),
-    color,
+    color: unconfirmed ? c.unconfirmedReport : color,
     fillColor: color,
     fillOpacity: 0.8,
     weight: 2,
     opacity: 1,
+    dashArray: unconfirmed ? '3 3' : undefined,
     className: 'map-circle-marker',
   }
 }
@@ -180,10 +202,16 @@ const buildReportTooltipContent = (marker: ReportMarkerData): string => {
   const title = count === 1 ? 'User Report' : `${count} user reports`
   const providers = [...new Set(marker.reports.map((r) => r.provider).filter(Boolean))]
   const subtitle = providers.length ? providers.join(', ') : 'Click for details'
+  const unconfirmedLead =
+    marker.unconfirmedCount === count ? 'No' : `${marker.unconfirmedCount} with no`
+  const unconfirmed = marker.unconfirmedCount
+    ? `<span>${unconfirmedLead} official outage nearby</span>`
+    : ''
   return `
     <div class="map-tooltip">
       <strong>${title}</strong>
       <span>${escapeHtml(subtitle)}</span>
+      ${unconfirmed}
     </div>
   `
 }
@@ -300,7 +328,9 @@ export function useMapLayers(options: UseMapLayersOptions, refs: MapLayerRefs) {
     if (!markers.length) return ''
     const first = markers[0]!
     const last = markers[markers.length - 1]!
-    return `${markers.length}:${first.lat},${first.lng},${first.count}:${last.lat},${last.lng},${last.count}`
+    // Corroboration changes with the selected block while positions stay put
+    const unconfirmed = markers.reduce((sum, m) => sum + m.unconfirmedCount, 0)
+    return `${markers.length}:${first.lat},${first.lng},${first.count}:${last.lat},${last.lng},${last.count}:${unconfirmed}`
   }
 
   // ── Highlight tracking ──
@@ -460,16 +490,8 @@ export function useMapLayers(options: UseMapLayersOptions, refs: MapLayerRefs) {
       features,
     }
 
-    const c = getMapColors()
-    const layer = L.geoJSON(featureCollection, {
-      style: () => ({
-        color: c.brand,
-        fillColor: c.brandFill,
-        weight: 2,
-        opacity: 0.9,
-        fillOpacity: 0.4,
-      }),
-    })
+    const style = createOutagePolygonStyle()
+    const layer = L.geoJSON(featureCollection, { style: () => style })
     layer.addTo(activeMap)
     geoJsonLayer.value = layer
   }
@@ -560,11 +582,18 @@ export function useMapLayers(options: UseMapLayersOptions, refs: MapLayerRefs) {
 
       for (const marker of markers) {
         const count = marker.count
+        const unconfirmed = marker.unconfirmedCount > 0
 
         const m = useCircleMarkers
-          ? L.circleMarker([marker.lat, marker.lng], createReportCircleMarkerOptions(count))
+          ? L.circleMarker(
+              [marker.lat, marker.lng],
+              createReportCircleMarkerOptions(count, unconfirmed),
+            )
           : L.marker([marker.lat, marker.lng], {
-              icon: count > 1 ? createReportClusterIcon(count) : createReportMarkerIcon(),
+              icon:
+                count > 1
+                  ? createReportClusterIcon(count, unconfirmed)
+                  : createReportMarkerIcon(unconfirmed),
             })
 
         bindHoverTooltip(m, buildReportTooltipContent(marker), useCircleMarkers ? -14 : -22, activeMap)
@@ -0,0 +1,229 @@
+import { watch, onBeforeUnmount } from 'vue'
+import type { Ref } from 'vue'
+import { storeToRefs } from 'pinia'
+import { useRoute, useRouter, type LocationQuery, type LocationQueryRaw } from 'vue-router'
+import { useOutageStore } from '@/stores/outages'
+import { TimeInterval } from '@/types/outage'
+import { MAP_LAYER_KEYS } from '@/config/map'
+import {
+  boundsToParam,
+  parseBoundsParam,
+  providerToSlug,
+  slugToProvider,
+  type BoundsLiteral,
+} from '@/lib/utils'
+import type { MapLayerKey, MapViewState } from '../../components/map/types'
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+export interface UseMapUrlStateOptions {
+  /** Map camera as last reported by MapComp (null until the first move) */
+  view: Ref<MapViewState | null>
+  /** Enabled map layers (null = MapComp defaults) */
+  layers: Ref<MapLayerKey[] | null>
+  /** Area the map is focused on (search result or selected outage) */
+  focus: Ref<BoundsLiteral | null>
+}
+
+/**
+ * Keys owned by the map URL state; everything else in the query is left alone.
+ * The legacy `provider` param is read by MapView and replaced by `p` on write;
+ * a `replay` link is loaded once by useStormReplay and then dropped the same way.
+ */
+const URL_KEYS = [
+  't',
+  'p',
+  'i',
+  'from',
+  'to',
+  'live',
+  'z',
+  'c',
+  'layers',
+  'b',
+  'provider',
+  'replay',
+] as const
+
+const URL_WRITE_DEBOUNCE_MS = 300
+
+const queryString = (query: LocationQuery, key: string): string | null => {
+  const value = query[key]
+  const first = Array.isArray(value) ? value[0] : value
+  return first ?? null
+}
+
+const queryNumber = (query: LocationQuery, key: string): number | null => {
+  const raw = queryString(query, key)
+  if (raw === null || raw === '') return null
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : null
+}
+
+// ─────────────────────────────────────────────────────────────
+// Composable
+// ─────────────────────────────────────────────────────────────
+/**
+ * Two-way sync between the map view and the route query, so a URL like
+ * `/?t=…&p=hydro-one&z=9&c=lat,lng&layers=weather,reports` reopens the same view.
+ *
+ * | Param    | Meaning                                          |
+ * | -------- | ------------------------------------------------ |
+ * | `t`      | Selected block timestamp (epoch seconds)         |
+ * | `p`      | Provider slug (ignored on `/map/:slug`)          |
+ * | `i`      | Timeline interval (`15m`, `1h`, …)               |
+ * | `from`   | Range start (epoch seconds)                      |
+ * | `to`     | Range end (epoch seconds)                        |
+ * | `live`   | `1` to follow live outages instead of a range    |
+ * | `z`, `c` | Zoom level and `lat,lng` center                  |
+ * | `layers` | Comma-separated enabled layers                   |
+ * | `b`      | Focused area, `south,west,north,east`            |
+ */
+export function useMapUrlState(options: UseMapUrlStateOptions) {
+  const { view, layers, focus } = options
+  const route = useRoute()
+  const router = useRouter()
+  const outageStore = useOutageStore()
+  const { selectedOutageTs, selectedProvider, timeInterval, startTime, endTime, blocks, live } =
+    storeToRefs(outageStore)
+
+  let writeTimer: number | null = null
+  let syncEnabled = false
+  /** Block timestamp from the URL, applied once its block has loaded */
+  let pendingTs: number | null = null
+
+  // ── Read ──
+
+  /** Map camera from the URL, for MapComp's initial center/zoom */
+  const initialView = (): MapViewState | null => {
+    const zoom = queryNumber(route.query, 'z')
+    const [lat, lng] = (queryString(route.query, 'c') ?? '').split(',').map(Number)
+    if (zoom === null || !Number.isFinite(lat) || !Number.isFinite(lng)) return null
+    return { lat: lat!, lng: lng!, zoom }
+  }
+
+  /** Provider named by the `p` slug, once the provider list is loaded */
+  const providerFromUrl = (providers: string[]): string | null => {
+    const slug = queryString(route.query, 'p')
+    return slug ? slugToProvider(slug, providers) : null
+  }
+
+  /**
+   * Apply the time-related params to the outage store.
+   * Returns true if the URL pinned a time range (so callers skip refreshing to "now").
+   */
+  const restore = (): boolean => {
+    const query = route.query
+
+    const iv = queryString(query, 'i')
+    if (iv && (Object.values(TimeInterval) as string[]).includes(iv)) {
+      timeInterval.value = iv as TimeInterval
+    }
+
+    const layerParam = queryString(query, 'layers')
+    if (layerParam !== null) {
+      layers.value = layerParam
+        .split(',')
+        .filter((key): key is MapLayerKey => MAP_LAYER_KEYS.includes(key as MapLayerKey))
+    }
+
+    const focusParam = parseBoundsParam(queryString(query, 'b'))
+    if (focusParam) focus.value = focusParam
+
+    pendingTs = queryNumber(query, 't')
+
+    if (queryString(query, 'live') === '1') {
+      outageStore.startLive()
+      return true
+    }
+
+    const from = queryNumber(query, 'from')
+    const to = queryNumber(query, 'to')
+    if (from === null || to === null || from >= to) return false
+    startTime.value = new Date(from * 1000)
+    endTime.value = new Date(to * 1000)
+    return true
+  }
+
+  // Select the linked block as soon as it exists (the store clears selections
+  // that point at blocks it has not loaded yet)
+  watch(blocks, (list) => {
+    if (pendingTs === null) return
+    const ts = pendingTs
+    if (list.some((b) => b.ts === ts)) {
+      pendingTs = null
+      selectedOutageTs.value = ts
+    }
+  })
+
+  // ── Write ──
+
+  const serialize = (): LocationQueryRaw => {
+    const query: LocationQueryRaw = {}
+    for (const [key, value] of Object.entries(route.query)) {
+      if (!(URL_KEYS as readonly string[]).includes(key)) query[key] = value
+    }
+
+    if (selectedOutageTs.value !== null) query.t = String(selectedOutageTs.value)
+    if (selectedProvider.value && route.name !== 'provider-map') {
+      query.p = providerToSlug(selectedProvider.value)
+    }
+    if (timeInterval.value !== TimeInterval.FifteenMinutes) query.i = timeInterval.value
+    if (live.value) {
+      query.live = '1'
+    } else if (startTime.value && endTime.value) {
+      query.from = String(Math.floor(startTime.value.getTime() / 1000))
+      query.to = String(Math.floor(endTime.value.getTime() / 1000))
+    }
+    if (view.value) {
+      query.z = String(view.value.zoom)
+      query.c = `${view.value.lat.toFixed(4)},${view.value.lng.toFixed(4)}`
+    }
+    if (layers.value) query.layers = layers.value.join(',')
+    if (focus.value) query.b = boundsToParam(focus.value)
+    return query
+  }
+
+  const queueWrite = () => {
+    if (writeTimer) clearTimeout(writeTimer)
+    writeTimer = window.setTimeout(() => {
+      writeTimer = null
+      router.replace({ query: serialize() })
+    }, URL_WRITE_DEBOUNCE_MS)
+  }
+
+  watch(
+    [
+      selectedOutageTs,
+      selectedProvider,
+      timeInterval,
+      startTime,
+      endTime,
+      live,
+      view,
+      layers,
+      focus,
+    ],
+    () => {
+      if (syncEnabled) queueWrite()
+    },
+  )
+
+  /** Start mirroring state into the URL (call once `restore` has been applied) */
+  const startSync = () => {
+    syncEnabled = true
+    queueWrite()
+  }
+
+  onBeforeUnmount(() => {
+    if (writeTimer) clearTimeout(writeTimer)
+  })
+
+  return {
+    initialView,
+    providerFromUrl,
+    restore,
+    startSync,
+  }
+}
@@ -0,0 +1,250 @@
+import { ref, computed, watch, onBeforeUnmount } from 'vue'
+import type { Ref } from 'vue'
+import { storeToRefs } from 'pinia'
+import { useRoute } from 'vue-router'
+import { useOutageStore } from '@/stores/outages'
+import { TimeInterval } from '@/types/outage'
+import { PLAYBACK_BASE_INTERVAL_MS, REPLAY_RANGE_PADDING_S } from '@/config/map'
+import { decodeReplay, encodeReplay, parseReplay } from '@/lib/replay'
+import type { ReplayKeyframe, StormReplay } from '@/types/replay'
+import type { BoundsLiteral, MapCamera, MapViewState } from '../../components/map/types'
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+export interface UseStormReplayOptions {
+  /** Map camera as last reported by MapComp */
+  view: Ref<MapViewState | null>
+  /** Map viewport as last reported by MapComp */
+  bounds: Ref<BoundsLiteral | null>
+  /** Camera moves handed to MapComp */
+  camera: Ref<MapCamera | null>
+}
+
+const STORAGE_KEY = 'stormReplays'
+
+const loadSaved = (): StormReplay[] => {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(raw)
+      ? raw.map(parseReplay).filter((r): r is StormReplay => r !== null)
+      : []
+  } catch {
+    return []
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Composable
+// ─────────────────────────────────────────────────────────────
+/**
+ * Records keyframes (block timestamp + map bounds/zoom) and plays them back:
+ * the timeline steps through every block between the first and last keyframe
+ * while the camera flies from each keyframe to the next over the same span.
+ *
+ * Replays are saved to localStorage and shared as `?replay=<encoded>`.
+ */
+export function useStormReplay(options: UseStormReplayOptions) {
+  const { view, bounds, camera } = options
+  const route = useRoute()
+  const outageStore = useOutageStore()
+  const { selectedOutageTs, selectedProvider, timeInterval, startTime, endTime, blocks } =
+    storeToRefs(outageStore)
+
+  const name = ref('')
+  const keyframes = ref<ReplayKeyframe[]>([])
+  const savedReplays = ref<StormReplay[]>(loadSaved())
+  const isReplaying = ref(false)
+  let timerId: number | null = null
+  /** Keyframe to jump to once its block has loaded (after `load`) */
+  let pendingKeyframe: ReplayKeyframe | null = null
+
+  const canRecord = computed(
+    () => selectedOutageTs.value !== null && !!bounds.value && !!view.value,
+  )
+  const canReplay = computed(() => keyframes.value.length >= 2)
+
+  // ── Recording ──
+
+  /** Capture the current block and camera; replaces a keyframe at the same time */
+  const addKeyframe = () => {
+    if (selectedOutageTs.value === null || !bounds.value || !view.value) return
+    const keyframe: ReplayKeyframe = {
+      ts: selectedOutageTs.value,
+      bounds: bounds.value,
+      zoom: view.value.zoom,
+    }
+    keyframes.value = [...keyframes.value.filter((k) => k.ts !== keyframe.ts), keyframe].sort(
+      (a, b) => a.ts - b.ts,
+    )
+  }
+
+  const removeKeyframe = (ts: number) => {
+    keyframes.value = keyframes.value.filter((k) => k.ts !== ts)
+  }
+
+  const clearKeyframes = () => {
+    stop()
+    keyframes.value = []
+    name.value = ''
+  }
+
+  /** Jump the camera and timeline to a keyframe */
+  const goToKeyframe = (keyframe: ReplayKeyframe) => {
+    outageStore.selectedOutageTs = keyframe.ts
+    camera.value = { bounds: keyframe.bounds, zoom: keyframe.zoom, durationMs: 0 }
+  }
+
+  watch(blocks, (list) => {
+    const keyframe = pendingKeyframe
+    if (!keyframe || !list.some((b) => b.ts === keyframe.ts)) return
+    pendingKeyframe = null
+    outageStore.selectedOutageTs = keyframe.ts
+  })
+
+  // ── Playback ──
+
+  const stop = () => {
+    if (timerId) {
+      clearInterval(timerId)
+      timerId = null
+    }
+    isReplaying.value = false
+  }
+
+  const play = () => {
+    stop()
+    const frames = keyframes.value
+    const first = frames[0]
+    const last = frames[frames.length - 1]
+    if (!first || !last || frames.length < 2) return
+
+    const steps = blocks.value.map((b) => b.ts).filter((ts) => ts >= first.ts && ts <= last.ts)
+    if (!steps.length) {
+      console.warn('[Replay] No loaded blocks between the first and last keyframe')
+      return
+    }
+
+    // Camera duration for the segment that starts at each keyframe
+    const segmentDuration = (index: number) => {
+      const from = frames[index]!
+      const to = frames[index + 1]!
+      const count = steps.filter((ts) => ts > from.ts && ts <= to.ts).length
+      return Math.max(1, count) * PLAYBACK_BASE_INTERVAL_MS
+    }
+
+    let step = 0
+    let segment = -1
+
+    const advance = () => {
+      const ts = steps[step]
+      if (ts === undefined) {
+        stop()
+        return
+      }
+      outageStore.selectedOutageTs = ts
+      // Start flying toward the next keyframe once its segment begins
+      while (segment + 1 < frames.length - 1 && ts >= frames[segment + 1]!.ts) {
+        segment++
+        const next = frames[segment + 1]!
+        camera.value = {
+          bounds: next.bounds,
+          zoom: next.zoom,
+          durationMs: segmentDuration(segment),
+        }
+      }
+      step++
+    }
+
+    isReplaying.value = true
+    camera.value = { bounds: first.bounds, zoom: first.zoom, durationMs: 0 }
+    advance()
+    timerId = window.setInterval(advance, PLAYBACK_BASE_INTERVAL_MS)
+  }
+
+  // ── Save / share ──
+
+  const currentReplay = (): StormReplay => ({
+    name: name.value.trim() || 'Untitled replay',
+    interval: timeInterval.value,
+    provider: selectedProvider.value,
+    keyframes: keyframes.value,
+    createdAt: Date.now(),
+  })
+
+  const save = () => {
+    if (!canReplay.value) return
+    const replay = currentReplay()
+    savedReplays.value = [...savedReplays.value.filter((r) => r.name !== replay.name), replay]
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedReplays.value))
+  }
+
+  const deleteSaved = (replayName: string) => {
+    savedReplays.value = savedReplays.value.filter((r) => r.name !== replayName)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedReplays.value))
+  }
+
+  const shareUrl = (): string => {
+    const url = new URL(window.location.origin + route.path)
+    url.searchParams.set('replay', encodeReplay(currentReplay()))
+    return url.toString()
+  }
+
+  /** Load a replay and point the time range at its keyframes */
+  const load = (replay: StormReplay) => {
+    stop()
+    name.value = replay.name
+    keyframes.value = replay.keyframes
+    if ((Object.values(TimeInterval) as string[]).includes(replay.interval)) {
+      timeInterval.value = replay.interval as TimeInterval
+    }
+    outageStore.selectedProvider = replay.provider
+
+    const first = replay.keyframes[0]
+    const last = replay.keyframes[replay.keyframes.length - 1]
+    if (!first || !last) return
+    outageStore.stopLive()
+    startTime.value = new Date((first.ts - REPLAY_RANGE_PADDING_S) * 1000)
+    endTime.value = new Date((last.ts + REPLAY_RANGE_PADDING_S) * 1000)
+    goToKeyframe(first)
+    pendingKeyframe = first
+  }
+
+  /** Load the replay from the `replay` query param; returns true if one was found */
+  const restoreFromUrl = (): boolean => {
+    const raw = route.query.replay
+    const encoded = Array.isArray(raw) ? raw[0] : raw
+    if (!encoded) return false
+    const replay = decodeReplay(encoded)
+    if (!replay) {
+      console.warn('[Replay] Ignoring malformed replay link')
+      return false
+    }
+    load(replay)
+    return true
+  }
+
+  onBeforeUnmount(stop)
+
+  return {
+    name,
+    keyframes,
+    savedReplays,
+    isReplaying,
+    canRecord,
+    canReplay,
+    addKeyframe,
+    removeKeyframe,
+    clearKeyframes,
+    goToKeyframe,
+    play,
+    stop,
+    save,
+    deleteSaved,
+    shareUrl,
+    load,
+    restoreFromUrl,
+  }
+}
+
+export type StormReplayControls = ReturnType<typeof useStormReplay>
@@ -0,0 +1,104 @@
+/**
+ * Suspected outages: hulls around bursts of user reports that no official
+ * outage covers, dashed so they read as unconfirmed.
+ */
+import L from 'leaflet'
+import { watch } from 'vue'
+import type { Ref, ShallowRef } from 'vue'
+import type { SuspectedOutage } from '@/types/userOutage'
+import { getMapColors } from '../../config/map'
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface UseSuspectedOutageLayerOptions {
+  map: ShallowRef<L.Map | null>
+  showSuspected: Ref<boolean>
+  /** Uncovered suspected outages for the selected timeline block */
+  suspectedOutages: Ref<SuspectedOutage[]>
+}
+
+export interface SuspectedOutageLayerRefs {
+  suspectedLayer: Ref<L.LayerGroup | null>
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+const escapeHtml = (str: string): string =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const buildSuspectedTooltip = (suspected: SuspectedOutage): string => {
+  const count = suspected.reportIds.length
+  const since = new Date(suspected.firstTs * 1000).toLocaleTimeString(undefined, {
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  return `
+    <div class="map-tooltip">
+      <strong>Suspected outage${suspected.provider ? ` · ${escapeHtml(suspected.provider)}` : ''}</strong>
+      <span>${count} user reports since ${since}</span>
+      <span>${Math.round(suspected.confidence * 100)}% confidence · not published</span>
+    </div>
+  `
+}
+
+// ─────────────────────────────────────────────────────────────
+// Composable
+// ─────────────────────────────────────────────────────────────
+export function useSuspectedOutageLayer(
+  options: UseSuspectedOutageLayerOptions,
+  refs: SuspectedOutageLayerRefs,
+) {
+  const { map, showSuspected, suspectedOutages } = options
+  const { suspectedLayer } = refs
+
+  const removeLayer = () => {
+    if (suspectedLayer.value) {
+      suspectedLayer.value.remove()
+      suspectedLayer.value = null
+    }
+  }
+
+  const render = () => {
+    const activeMap = map.value
+    removeLayer()
+    if (!activeMap || !showSuspected.value || !suspectedOutages.value.length) return
+
+    const color = getMapColors().unconfirmedReport
+    const layer = L.layerGroup()
+    for (const suspected of suspectedOutages.value) {
+      L.polygon(suspected.hull, {
+        color,
+        weight: 2,
+        dashArray: '6 4',
+        fillColor: color,
+        // Stronger fill for more confident bursts
+        fillOpacity: 0.08 + 0.17 * suspected.confidence,
+      })
+        .bindTooltip(buildSuspectedTooltip(suspected), {
+          sticky: true,
+          direction: 'top',
+          className: 'map-tooltip-container',
+        })
+        .addTo(layer)
+    }
+    layer.addTo(activeMap)
+    suspectedLayer.value = layer
+  }
+
+  /** Toggle layer visibility */
+  const setVisible = (visible: boolean) => {
+    if (visible) render()
+    else removeLayer()
+  }
+
+  watch(suspectedOutages, () => render())
+
+  return {
+    setVisible,
+    cleanup: removeLayer,
+  }
+}
@@ -1,7 +1,8 @@
 import { ref, computed, onMounted, onBeforeUnmount, watch } from 'vue'
 import { storeToRefs } from 'pinia'
 import { useAnalyticsStore } from '@/stores/analytics'
-import type { ComplianceBucket } from '@/types/analytics'
+import { isOnTime, onTimeByDay, summarizeByProvider } from '@/lib/etrAccuracy'
+import type { ComplianceBucket, EtrAccuracyStats, Granularity } from '@/types/analytics'
 
 // ─────────────────────────────────────────────────────────────
 // Constants
@@ -32,6 +33,12 @@ export const DAY_LABEL_WIDTH = 28
 export const SPARK_W = 80
 export const SPARK_H = 20
 
+/** Days of outage history analysed for ETR accuracy */
+export const ETR_WINDOW_DAYS = 30
+
+/** Days of outage history analysed for reliability indices */
+export const RELIABILITY_WINDOW_DAYS = 90
+
 export const dayOfWeekLabels = ['', 'M', '', 'W', '', 'F', ''] as const
 
 // ─────────────────────────────────────────────────────────────
@@ -54,6 +61,8 @@ export type ProviderTile = {
   numWeeks: number
   monthLabels: { label: string; col: number }[]
   overallScore: number
+  /** ETR reliability (0–100), or -1 when the provider published no usable ETRs */
+  etrScore: number
   sparkPath: string | null
 }
 
@@ -160,6 +169,96 @@ function computeMonthLabelsFlat(days: DayCell[]): { label: string; col: number }
   return labels
 }
 
+/** Heat-calendar tile for one provider's compliance buckets */
+export function buildProviderTile(
+  key: string,
+  label: string,
+  buckets: ComplianceBucket[],
+  loading: boolean,
+  etrStats: EtrAccuracyStats | undefined,
+  granularity: Granularity,
+): ProviderTile {
+  const etrScore = etrStats?.score ?? -1
+  if (!buckets.length)
+    return {
+      key,
+      label,
+      loading,
+      days: [],
+      numWeeks: 0,
+      monthLabels: [],
+      overallScore: -1,
+      etrScore,
+      sparkPath: null,
+    }
+
+  const sorted = [...buckets].sort((a, b) => a.bucket_start_ts - b.bucket_start_ts)
+  const rawDays: DayCell[] = sorted.map((b) => ({
+    date: new Date(b.bucket_start_ts * 1000),
+    value: compositeScore(b),
+    total: b.total,
+    bucket: b,
+  }))
+
+  const nonEmpty = rawDays.filter((d) => !d.empty)
+
+  const totalOutages = nonEmpty.reduce((sum, d) => sum + d.total, 0)
+  const overallScore =
+    nonEmpty.length > 0 && totalOutages > 0
+      ? Math.round(nonEmpty.reduce((sum, d) => sum + d.value * d.total, 0) / totalOutages)
+      : -1
+
+  const maxTotal = Math.max(...nonEmpty.map((d) => d.total), 1)
+  for (const day of rawDays) {
+    if (!day.empty && day.total > 0) {
+      const volumeWeight = Math.sqrt(day.total / maxTotal)
+      day.value = Math.round(day.value * volumeWeight)
+    }
+  }
+
+  const isDaily = granularity === 'day'
+  const { grid, numCols } = isDaily ? buildGridDays(rawDays) : buildGridFlat(rawDays)
+  const monthLabels = isDaily
+    ? computeMonthLabelsDaily(grid, numCols)
+    : computeMonthLabelsFlat(grid)
+
+  const sparkData = sorted.map((b) => b.total)
+  const sparkPath = buildSparkPath(sparkData)
+
+  return {
+    key,
+    label,
+    loading,
+    days: grid,
+    numWeeks: numCols,
+    monthLabels,
+    overallScore,
+    etrScore,
+    sparkPath,
+  }
+}
+
+/** Share of outages (0–100) with each compliance field present, across buckets */
+export function fieldBreakdownFor(buckets: ComplianceBucket[]): FieldBreakdownItem[] | null {
+  let grandTotal = 0
+  const totals: Record<string, number> = {}
+  for (const f of complianceFields) totals[f.value] = 0
+
+  for (const b of buckets) {
+    grandTotal += b.total
+    for (const f of complianceFields) {
+      totals[f.value] = (totals[f.value] ?? 0) + (b[f.value as keyof ComplianceBucket] as number)
+    }
+  }
+
+  if (!grandTotal) return null
+  return complianceFields.map((f) => ({
+    label: f.label,
+    key: f.value,
+    pct: Math.round(((totals[f.value] ?? 0) / grandTotal) * 100),
+  }))
+}
+
 // ─────────────────────────────────────────────────────────────
 // Composable
 // ─────────────────────────────────────────────────────────────
@@ -174,68 +273,34 @@ export function useAnalyticsData() {
     isLoading,
     isLoadingSeries,
     selectedGranularity,
+    etrSamples,
+    interruptions,
+    isLoadingHistory,
+    historyError,
+    historyProgress,
+    etrRevisionProgress,
   } = storeToRefs(analyticsStore)
 
-  // --- Tile building ---
+  // --- ETR accuracy ---
 
-  function buildTile(
-    key: string,
-    label: string,
-    buckets: ComplianceBucket[],
-    loading: boolean,
-  ): ProviderTile {
-    if (!buckets.length)
-      return {
-        key,
-        label,
-        loading,
-        days: [],
-        numWeeks: 0,
-        monthLabels: [],
-        overallScore: -1,
-        sparkPath: null,
-      }
+  const etrAccuracy = computed<EtrAccuracyStats[]>(() => summarizeByProvider(etrSamples.value))
 
-    const sorted = [...buckets].sort((a, b) => a.bucket_start_ts - b.bucket_start_ts)
-    const rawDays: DayCell[] = sorted.map((b) => ({
-      date: new Date(b.bucket_start_ts * 1000),
-      value: compositeScore(b),
-      total: b.total,
-      bucket: b,
-    }))
-
-    const nonEmpty = rawDays.filter((d) => !d.empty)
-
-    const totalOutages = nonEmpty.reduce((sum, d) => sum + d.total, 0)
-    const overallScore =
-      nonEmpty.length > 0 && totalOutages > 0
-        ? Math.round(nonEmpty.reduce((sum, d) => sum + d.value * d.total, 0) / totalOutages)
-        : -1
-
-    const maxTotal = Math.max(...nonEmpty.map((d) => d.total), 1)
-    for (const day of rawDays) {
-      if (!day.empty && day.total > 0) {
-        const volumeWeight = Math.sqrt(day.total / maxTotal)
-        day.value = Math.round(day.value * volumeWeight)
-      }
-    }
+  const etrStatsByProvider = computed(
+    () => new Map(etrAccuracy.value.map((stats) => [stats.provider, stats])),
+  )
 
-    const isDaily = selectedGranularity.value === 'day'
-    const { grid, numCols } = isDaily ? buildGridDays(rawDays) : buildGridFlat(rawDays)
-    const monthLabels = isDaily
-      ? computeMonthLabelsDaily(grid, numCols)
-      : computeMonthLabelsFlat(grid)
-
-    const sparkData = sorted.map((b) => b.total)
-    const sparkPath = buildSparkPath(sparkData)
-
-    return { key, label, loading, days: grid, numWeeks: numCols, monthLabels, overallScore, sparkPath }
-  }
+  // --- Tile building ---
 
   // Cache built tiles to avoid rebuilding all ~100 tiles when one provider's data arrives
   const _tileCache = new Map<
     string,
-    { buckets: ComplianceBucket[] | undefined; loading: boolean; granularity: string; tile: ProviderTile }
+    {
+      buckets: ComplianceBucket[] | undefined
+      loading: boolean
+      granularity: string
+      etrStats: EtrAccuracyStats | undefined
+      tile: ProviderTile
+    }
   >()
 
   const tiles = computed<ProviderTile[]>(() => {
@@ -245,12 +310,19 @@ export function useAnalyticsData() {
     const built = providerNames.map((name) => {
       const buckets = seriesByProvider.value.get(name)
       const isLoading = loading.has(name)
+      const etrStats = etrStatsByProvider.value.get(name)
       const cached = _tileCache.get(name)
-      if (cached && cached.buckets === buckets && cached.loading === isLoading && cached.granularity === granularity) {
+      if (
+        cached &&
+        cached.buckets === buckets &&
+        cached.loading === isLoading &&
+        cached.granularity === granularity &&
+        cached.etrStats === etrStats
+      ) {
         return cached.tile
       }
-      const tile = buildTile(name, name, buckets ?? [], isLoading)
-      _tileCache.set(name, { buckets, loading: isLoading, granularity, tile })
+      const tile = buildProviderTile(name, name, buckets ?? [], isLoading, etrStats, granularity)
+      _tileCache.set(name, { buckets, loading: isLoading, granularity, etrStats, tile })
       return tile
     })
     // Alphabetical while loading, score-ranked once done — prevents constant reshuffling
@@ -314,6 +386,16 @@ export function useAnalyticsData() {
     }))
   })
 
+  /** Daily share of restorations that landed within tolerance of the initial ETR */
+  const etrTrendPoints = computed<TrendPoint[] | null>(() => {
+    const days = onTimeByDay(etrSamples.value)
+    if (!days.length) return null
+    return days.map(({ date, onTime, total }) => ({
+      date,
+      score: Math.round((onTime / total) * 100),
+    }))
+  })
+
   // --- KPIs ---
 
   const kpiProviderCount = computed(() => providers.value.length)
@@ -333,6 +415,12 @@ export function useAnalyticsData() {
     return Math.round(scored.reduce((s, t) => s + t.overallScore, 0) / scored.length)
   })
 
+  const kpiEtrScore = computed(() => {
+    const samples = etrSamples.value
+    if (!samples.length) return null
+    return Math.round((samples.filter(isOnTime).length / samples.length) * 100)
+  })
+
   // --- Field breakdown ---
 
   const fieldBreakdown = computed<FieldBreakdownItem[] | null>(() => {
@@ -383,6 +471,12 @@ export function useAnalyticsData() {
 
   onMounted(async () => {
     await Promise.all([analyticsStore.fetchProviders(), analyticsStore.fetchProviderDirectory()])
+    const now = Math.floor(Date.now() / 1000)
+    analyticsStore.fetchOutageHistory(
+      now - RELIABILITY_WINDOW_DAYS * 24 * 60 * 60,
+      now,
+      now - ETR_WINDOW_DAYS * 24 * 60 * 60,
+    )
     await loadAllSeries()
     initialized.value = true
   })
@@ -398,6 +492,12 @@ export function useAnalyticsData() {
     isLoadingSeries,
     seriesByProvider,
     providerDirectory,
+    isLoadingHistory,
+    historyError,
+    historyProgress,
+    etrRevisionProgress,
+    interruptions,
+    etrSamples,
 
     // Computed data
     tiles,
@@ -405,10 +505,14 @@ export function useAnalyticsData() {
     completenessTrendPoints,
     fieldBreakdown,
     loadingProgress,
+    etrAccuracy,
+    etrStatsByProvider,
+    etrTrendPoints,
 
     // KPIs
     kpiProviderCount,
     kpiTotalOutages,
     kpiAvgCompleteness,
+    kpiEtrScore,
   }
 }
@@ -0,0 +1,34 @@
+import { ref } from 'vue'
+
+const STORAGE_KEY = 'providerCustomerBase'
+
+const loadSaved = (): Record<string, number> => {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {}
+    return Object.fromEntries(
+      Object.entries(raw).filter(
+        (entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] > 0,
+      ),
+    )
+  } catch {
+    return {}
+  }
+}
+
+// Shared across callers so every view sees the same configuration
+const customerBase = ref<Record<string, number>>(loadSaved())
+
+/** Customers served per provider, the denominator for SAIDI and SAIFI; saved to localStorage */
+export function useCustomerBase() {
+  /** Set or clear (with null or a non-positive value) a provider's customer base */
+  const setCustomerBase = (provider: string, customers: number | null) => {
+    const next = { ...customerBase.value }
+    if (customers && customers > 0) next[provider] = Math.floor(customers)
+    else delete next[provider]
+    customerBase.value = next
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }
+
+  return { customerBase, setCustomerBase }
+}
@@ -0,0 +1,180 @@
+import { ref, computed } from 'vue'
+import { storeToRefs } from 'pinia'
+import { useAdminStore } from '@/stores/admin'
+import { useAnalyticsStore } from '@/stores/analytics'
+import { detectProviderAnomalies, detectWorkerAnomaly } from '@/lib/feedHealth'
+import type { ComplianceBucket } from '@/types/analytics'
+import type { DetectedAnomaly, FeedAnomaly, FeedAnomalyAction } from '@/types/feedHealth'
+
+/** Provider series fetched at once during a scan */
+const SCAN_CONCURRENCY = 6
+
+// Shared so the admin tab badge and the tab body agree
+const isScanning = ref(false)
+const lastScanAt = ref<number | null>(null)
+const scanError = ref<string | null>(null)
+/** Loading, saving or triaging the shared anomaly history failed */
+const syncError = ref<string | null>(null)
+let scanAbort: AbortController | null = null
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : 'Unknown error')
+
+/**
+ * Feed health monitoring: scans each provider's daily compliance series and
+ * the latest worker run for anomalies, and keeps their history (with
+ * acknowledge/resolve state) on the server so every admin sees the same triage.
+ */
+export function useFeedHealth() {
+  const analyticsStore = useAnalyticsStore()
+  const adminStore = useAdminStore()
+  const { feedAnomalies: anomalies } = storeToRefs(adminStore)
+
+  const openCount = computed(() => anomalies.value.filter((a) => a.status === 'open').length)
+
+  /** Refresh the shared history, e.g. for triage done by other admins */
+  const load = async () => {
+    try {
+      await adminStore.loadFeedAnomalies()
+      syncError.value = null
+    } catch (err) {
+      syncError.value = errorMessage(err)
+    }
+  }
+
+  /** Fold one scan's findings into the history; returns the new and changed entries */
+  const merge = (detected: DetectedAnomaly[], nowSec: number): FeedAnomaly[] => {
+    const seen = new Map(detected.map((d) => [d.id, d]))
+    const changed: FeedAnomaly[] = []
+    for (const anomaly of anomalies.value) {
+      if (seen.has(anomaly.id)) {
+        seen.delete(anomaly.id)
+        if (anomaly.status !== 'resolved') changed.push({ ...anomaly, lastSeenAt: nowSec })
+      } else if (anomaly.status !== 'resolved') {
+        // The condition cleared on its own
+        changed.push({ ...anomaly, status: 'resolved', resolvedAt: nowSec, autoResolved: true })
+      }
+    }
+    for (const found of seen.values()) {
+      changed.push({
+        ...found,
+        detectedAt: nowSec,
+        lastSeenAt: nowSec,
+        status: 'open',
+        acknowledgedAt: null,
+        resolvedAt: null,
+        autoResolved: false,
+        triagedBy: null,
+      })
+    }
+    return changed
+  }
+
+  /**
+   * Fetch every provider's daily series and the latest worker run into local
+   * state (never the analytics store, which the analytics page owns) and fold
+   * the findings into the history. Any failure abandons the scan: merging a
+   * partial one would auto-resolve anomalies it simply failed to see.
+   */
+  const scan = async () => {
+    if (isScanning.value) return
+    const controller = new AbortController()
+    const { signal } = controller
+    scanAbort = controller
+    isScanning.value = true
+    scanError.value = null
+    // Merge against the latest shared history
+    await load()
+    try {
+      const [{ providers }, workerRun] = await Promise.all([
+        analyticsStore.loadProviders(signal),
+        analyticsStore.loadWorkerRun(signal),
+      ])
+      const names = providers.map((p) => p.provider)
+      const seriesByProvider = new Map<string, ComplianceBucket[]>()
+
+      let idx = 0
+      const next = async (): Promise<void> => {
+        while (idx < names.length && !signal.aborted) {
+          const name = names[idx++]!
+          seriesByProvider.set(name, await analyticsStore.loadProviderSeries(name, 'day', signal))
+        }
+      }
+      await Promise.all(
+        Array.from({ length: Math.min(SCAN_CONCURRENCY, names.length) }, () => next()),
+      )
+      const missing = names.filter((name) => !seriesByProvider.has(name))
+      if (signal.aborted || missing.length) {
+        throw new Error(`Scan incomplete: no series for ${missing.join(', ') || 'some providers'}`)
+      }
+
+      const nowSec = Math.floor(Date.now() / 1000)
+      const detected: DetectedAnomaly[] = []
+      for (const [provider, buckets] of seriesByProvider) {
+        detected.push(...detectProviderAnomalies(provider, buckets, nowSec))
+      }
+      const worker = detectWorkerAnomaly(workerRun)
+      if (worker) detected.push(worker)
+
+      if (syncError.value) throw new Error(`Anomaly history unavailable (${syncError.value})`)
+      const changed = merge(detected, nowSec)
+      if (changed.length) await adminStore.saveFeedAnomalies(changed)
+      lastScanAt.value = nowSec
+      await load()
+    } catch (err) {
+      // Stop the other in-flight series fetches
+      controller.abort()
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        scanError.value = 'Scan cancelled'
+      } else {
+        scanError.value = errorMessage(err)
+      }
+    } finally {
+      isScanning.value = false
+      scanAbort = null
+    }
+  }
+
+  /** Abandon a running scan (nothing is merged) */
+  const cancelScan = () => scanAbort?.abort()
+
+  const triage = async (id: string, action: FeedAnomalyAction) => {
+    try {
+      await adminStore.triageFeedAnomalies({ action, ids: [id] })
+      syncError.value = null
+    } catch (err) {
+      syncError.value = errorMessage(err)
+    }
+  }
+
+  const acknowledge = (id: string) => triage(id, 'acknowledge')
+
+  const resolve = (id: string) => triage(id, 'resolve')
+
+  /** Reopen a resolved anomaly the admin still cares about */
+  const reopen = (id: string) => triage(id, 'reopen')
+
+  const clearResolved = async () => {
+    try {
+      await adminStore.clearResolvedFeedAnomalies()
+      syncError.value = null
+    } catch (err) {
+      syncError.value = errorMessage(err)
+    }
+  }
+
+  return {
+    anomalies,
+    openCount,
+    isScanning,
+    lastScanAt,
+    scanError,
+    syncError,
+    load,
+    scan,
+    cancelScan,
+    acknowledge,
+    resolve,
+    reopen,
+    clearResolved,
+  }
+}
@@ -0,0 +1,64 @@
+import { ref, computed } from 'vue'
+import { useOutageStore } from '@/stores/outages'
+import { cloneFilters, createEmptyFilters } from '@/lib/outageFilters'
+import type { OutageFilterPreset } from '@/types/outageFilter'
+
+const STORAGE_KEY = 'outageFilterPresets'
+
+/** Always offered; the storm-day filter everyone rebuilds by hand */
+const BUILT_IN_PRESETS: OutageFilterPreset[] = [
+  {
+    name: 'Storm: unplanned, 500+ customers',
+    filters: { ...createEmptyFilters(), planned: 'unplanned', minCustomers: 500 },
+  },
+]
+
+const loadSaved = (): OutageFilterPreset[] => {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(raw)) return []
+    // Merge over the defaults so presets saved by older versions gain new fields
+    return raw
+      .filter((p): p is OutageFilterPreset => typeof p?.name === 'string' && !!p.filters)
+      .map((p) => ({ name: p.name, filters: { ...createEmptyFilters(), ...p.filters } }))
+  } catch {
+    return []
+  }
+}
+
+/** Named outage filter presets, saved to localStorage and applied to the outage store */
+export function useFilterPresets() {
+  const outageStore = useOutageStore()
+  const savedPresets = ref<OutageFilterPreset[]>(loadSaved())
+
+  const presets = computed(() => [...BUILT_IN_PRESETS, ...savedPresets.value])
+
+  const isBuiltIn = (name: string) => BUILT_IN_PRESETS.some((p) => p.name === name)
+
+  const persist = () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(savedPresets.value))
+  }
+
+  /** Save the store's current filters; replaces a saved preset with the same name */
+  const savePreset = (name: string) => {
+    const trimmed = name.trim()
+    if (!trimmed || isBuiltIn(trimmed)) return
+    const preset: OutageFilterPreset = {
+      name: trimmed,
+      filters: cloneFilters(outageStore.filters),
+    }
+    savedPresets.value = [...savedPresets.value.filter((p) => p.name !== trimmed), preset]
+    persist()
+  }
+
+  const deletePreset = (name: string) => {
+    savedPresets.value = savedPresets.value.filter((p) => p.name !== name)
+    persist()
+  }
+
+  const applyPreset = (preset: OutageFilterPreset) => {
+    outageStore.filters = cloneFilters(preset.filters)
+  }
+
+  return { presets, isBuiltIn, savePreset, deletePreset, applyPreset }
+}
@@ -0,0 +1,84 @@
+import { ref } from 'vue'
+import { storeToRefs } from 'pinia'
+import { useOutageStore } from '@/stores/outages'
+import { useUserOutageStore } from '@/stores/userOutages'
+import { matchReportToOutage, REPORT_MATCH_SLACK_S } from '@/lib/corroboration'
+import { logDevError } from '@/config/map'
+import type { Outage, OutageResponse } from '@/types/outage'
+import type { MyUserOutageReport, ReportOutageMatch } from '@/types/userOutage'
+
+/** Older reports are listed without looking up official outages */
+const MATCH_LOOKBACK_S = 7 * 24 * 3600
+
+const reportTsOf = (report: MyUserOutageReport) => report.observedTs ?? report.createdAt
+
+/**
+ * The current user's reports (signed in or via the browser token), each with
+ * the official outages it was matched to around the time it was made.
+ */
+export function useMyReports() {
+  const outageStore = useOutageStore()
+  const userOutageStore = useUserOutageStore()
+  const { myReports, myReportsLoading, myReportsError } = storeToRefs(userOutageStore)
+
+  /** Report id → matches, best first; missing while still being looked up */
+  const matches = ref(new Map<number, ReportOutageMatch[]>())
+  const isMatching = ref(false)
+
+  let loadGeneration = 0
+
+  const matchReport = async (report: MyUserOutageReport): Promise<ReportOutageMatch[]> => {
+    const ts = reportTsOf(report)
+    const response = await outageStore.fetchOutages({
+      since: ts - REPORT_MATCH_SLACK_S,
+      until: ts + REPORT_MATCH_SLACK_S,
+      provider: report.provider ?? undefined,
+    })
+    if (!response.ok) throw new Error(`Outage lookup failed (${response.status})`)
+    const data: OutageResponse = await response.json()
+
+    // One record per outage: the most recently updated
+    const latest = new Map<number, Outage>()
+    for (const outage of data.outages) {
+      const seen = latest.get(outage.id)
+      if (!seen || outage.ts > seen.ts) latest.set(outage.id, outage)
+    }
+    const nowSec = Math.floor(Date.now() / 1000)
+    return [...latest.values()]
+      .flatMap((outage) => matchReportToOutage(report, outage, [outage.polygon], nowSec) ?? [])
+      .sort((a, b) => b.score - a.score)
+  }
+
+  const load = async () => {
+    const gen = ++loadGeneration
+    await userOutageStore.fetchMyReports()
+    if (gen !== loadGeneration) return
+
+    const cutoff = Math.floor(Date.now() / 1000) - MATCH_LOOKBACK_S
+    const pending = myReports.value.filter(
+      (r) => r.status !== 'withdrawn' && reportTsOf(r) >= cutoff,
+    )
+    matches.value = new Map()
+    isMatching.value = pending.length > 0
+    // One at a time; a reporter rarely has more than a handful of recent reports
+    for (const report of pending) {
+      try {
+        const found = await matchReport(report)
+        if (gen !== loadGeneration) return
+        matches.value = new Map(matches.value).set(report.id, found)
+      } catch (err) {
+        logDevError(`Report ${report.id} matching`, err)
+      }
+    }
+    if (gen === loadGeneration) isMatching.value = false
+  }
+
+  return {
+    reports: myReports,
+    isLoading: myReportsLoading,
+    error: myReportsError,
+    matches,
+    isMatching,
+    load,
+  }
+}
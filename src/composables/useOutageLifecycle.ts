@@ -0,0 +1,182 @@
+import { ref, computed, watch, onBeforeUnmount } from 'vue'
+import type { Ref } from 'vue'
+import { useOutageStore } from '@/stores/outages'
+import { useUserOutageStore } from '@/stores/userOutages'
+import { useFeedbackStore } from '@/stores/feedback'
+import { buildOutageHistory, recordIn, reportMatchesOutage, snapshotOf } from '@/lib/outageHistory'
+import { logDevError } from '@/config/map'
+import type { Outage, OutageByIdResponse, OutageResponse, OutageSnapshot } from '@/types/outage'
+import type { UserOutageReport } from '@/types/userOutage'
+
+/** Reports made within this long of the outage window are fetched as candidates */
+const REPORT_WINDOW_PADDING_S = 3600
+
+/** History requests per outage at most; each returns the outage's latest record in its slice */
+const HISTORY_MAX_SLICES = 48
+
+/** Shortest slice, about the feed's update cadence */
+const HISTORY_MIN_SLICE_S = 15 * 60
+
+const HISTORY_CONCURRENCY = 4
+
+/**
+ * Loads one outage by id along with its change history over its life, the user
+ * reports that match it and their feedback summaries.
+ */
+export function useOutageLifecycle(outageId: Ref<string>) {
+  const outageStore = useOutageStore()
+  const userOutageStore = useUserOutageStore()
+  const feedbackStore = useFeedbackStore()
+
+  const outage = ref<Outage | null>(null)
+  const snapshots = ref<OutageSnapshot[]>([])
+  const reports = ref<UserOutageReport[]>([])
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+  /** History could not be loaded; only the latest record is shown */
+  const historyUnavailable = ref(false)
+
+  let loadGeneration = 0
+  /** Cancels the previous load's history requests */
+  let loadAbort: AbortController | null = null
+
+  const durationSec = computed(() => {
+    if (!outage.value) return null
+    const end = outage.value.endTs ?? Math.floor(Date.now() / 1000)
+    return Math.max(0, end - outage.value.startTs)
+  })
+
+  const peakCustomers = computed(() =>
+    snapshots.value.reduce<number | null>(
+      (peak, s) =>
+        s.customerCount !== null && (peak === null || s.customerCount > peak)
+          ? s.customerCount
+          : peak,
+      null,
+    ),
+  )
+
+  /** One `/outages` request per slice of the outage's life, collapsed into snapshots */
+  const loadHistory = async (record: Outage, signal: AbortSignal): Promise<OutageSnapshot[]> => {
+    const until = record.endTs ?? Math.floor(Date.now() / 1000)
+    const sliceS = Math.max(
+      HISTORY_MIN_SLICE_S,
+      Math.ceil((until - record.startTs) / HISTORY_MAX_SLICES),
+    )
+    const slices: { since: number; until: number }[] = []
+    for (let t = record.startTs; t < until; t += sliceS) {
+      slices.push({ since: t, until: Math.min(t + sliceS, until) })
+    }
+
+    const records: Outage[] = [record]
+    let idx = 0
+    const next = async (): Promise<void> => {
+      while (idx < slices.length && !signal.aborted) {
+        const slice = slices[idx++]!
+        const response = await outageStore.fetchOutages(
+          { ...slice, provider: record.provider },
+          signal,
+        )
+        if (!response.ok) throw new Error(`Outage history request failed (${response.status})`)
+        const data: OutageResponse = await response.json()
+        const found = recordIn(record.id, data)
+        if (found) records.push(found)
+      }
+    }
+    await Promise.all(
+      Array.from({ length: Math.min(HISTORY_CONCURRENCY, slices.length) }, () => next()),
+    )
+    return buildOutageHistory(records)
+  }
+
+  const loadReports = async (record: Outage, history: OutageSnapshot[]) => {
+    const now = Math.floor(Date.now() / 1000)
+    const candidates = await userOutageStore.fetchReportsBetween(
+      record.startTs - REPORT_WINDOW_PADDING_S,
+      Math.min(now, (record.endTs ?? now) + REPORT_WINDOW_PADDING_S),
+    )
+    return candidates.filter((report) => reportMatchesOutage(report, record, history, now))
+  }
+
+  const load = async (id: string) => {
+    const gen = ++loadGeneration
+    loadAbort?.abort()
+    loadAbort = new AbortController()
+    const { signal } = loadAbort
+    isLoading.value = true
+    error.value = null
+    historyUnavailable.value = false
+    outage.value = null
+    snapshots.value = []
+    reports.value = []
+
+    try {
+      const response = await outageStore.fetchOutage(id)
+      if (gen !== loadGeneration) return
+      if (response.status === 404) throw new Error('Outage not found.')
+      if (!response.ok) throw new Error('Failed to load outage.')
+      const data: OutageByIdResponse = await response.json()
+      if (gen !== loadGeneration) return
+      outage.value = data.outage
+    } catch (err) {
+      if (gen !== loadGeneration) return
+      error.value = err instanceof Error ? err.message : 'Failed to load outage.'
+      isLoading.value = false
+      return
+    }
+
+    const record = outage.value
+    let history: OutageSnapshot[]
+    try {
+      history = await loadHistory(record, signal)
+    } catch (err) {
+      if (gen !== loadGeneration) return
+      logDevError('Outage history', err)
+      history = []
+    }
+    if (gen !== loadGeneration) return
+    if (!history.length) {
+      historyUnavailable.value = true
+      history = [snapshotOf(record)]
+    }
+    snapshots.value = history
+
+    try {
+      const matched = await loadReports(record, history)
+      if (gen !== loadGeneration) return
+      reports.value = matched
+    } catch (err) {
+      logDevError('Outage reports', err)
+    }
+
+    feedbackStore
+      .fetchSummaries(
+        [record.id],
+        reports.value.map((r) => r.id),
+      )
+      .catch((err) => logDevError('Outage feedback', err))
+
+    isLoading.value = false
+  }
+
+  watch(outageId, (id) => load(id), { immediate: true })
+
+  onBeforeUnmount(() => {
+    // Drops whatever the current load still has pending
+    loadGeneration++
+    loadAbort?.abort()
+    loadAbort = null
+  })
+
+  return {
+    outage,
+    snapshots,
+    reports,
+    isLoading,
+    error,
+    historyUnavailable,
+    durationSec,
+    peakCustomers,
+    reload: () => load(outageId.value),
+  }
+}
@@ -0,0 +1,198 @@
+import { computed, watch, onMounted, onBeforeUnmount } from 'vue'
+import { storeToRefs } from 'pinia'
+import { useRoute, useRouter } from 'vue-router'
+import { useAnalyticsStore } from '@/stores/analytics'
+import { providerToSlug, slugToProvider } from '@/lib/utils'
+import {
+  buildProviderTile,
+  compositeScore,
+  fieldBreakdownFor,
+  granularityOptions,
+  type FieldBreakdownItem,
+  type ProviderTile,
+} from '@/composables/useAnalyticsData'
+import type { ComplianceBucket, Granularity } from '@/types/analytics'
+
+// ─────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────
+
+export const COMPARE_MIN_PROVIDERS = 2
+export const COMPARE_MAX_PROVIDERS = 6
+
+/** One colour per compared provider, in selection order */
+export const COMPARE_COLORS = [
+  'var(--color-primary-500)',
+  'var(--color-secondary-500)',
+  '#f59e0b',
+  '#8b5cf6',
+  '#ef4444',
+  '#06b6d4',
+] as const
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type ComparisonSeries = {
+  key: string
+  label: string
+  color: string
+  points: { date: Date; value: number }[]
+}
+
+export type ComparedProvider = {
+  name: string
+  color: string
+  tile: ProviderTile
+  fields: FieldBreakdownItem[] | null
+  totalOutages: number
+}
+
+// ─────────────────────────────────────────────────────────────
+// Composable
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Side-by-side compliance data for 2–6 providers. The selection and
+ * granularity live in the URL (`?providers=slug,slug&g=week`) so a
+ * comparison can be bookmarked and shared.
+ */
+export function useProviderComparison() {
+  const route = useRoute()
+  const router = useRouter()
+  const analyticsStore = useAnalyticsStore()
+  const { providers, seriesByProvider, loadingProviders } = storeToRefs(analyticsStore)
+
+  const providerNames = computed(() => providers.value.map((p) => p.provider).sort())
+
+  const selected = computed<string[]>({
+    get: () => {
+      const raw = route.query.providers
+      const slugs = (Array.isArray(raw) ? raw.join(',') : (raw ?? '')).split(',').filter(Boolean)
+      const names = slugs
+        .map((slug) => slugToProvider(slug, providerNames.value))
+        .filter((name): name is string => !!name)
+      return [...new Set(names)].slice(0, COMPARE_MAX_PROVIDERS)
+    },
+    set: (names) => {
+      const query = { ...route.query }
+      const slugs = names.slice(0, COMPARE_MAX_PROVIDERS).map(providerToSlug)
+      if (slugs.length) query.providers = slugs.join(',')
+      else delete query.providers
+      router.replace({ query })
+    },
+  })
+
+  const granularity = computed<Granularity>({
+    get: () => {
+      const raw = route.query.g
+      return granularityOptions.find((g) => g.value === raw)?.value ?? 'week'
+    },
+    set: (value) => {
+      router.replace({ query: { ...route.query, g: value } })
+    },
+  })
+
+  const providerItems = computed(() =>
+    providerNames.value.map((name) => ({
+      label: name,
+      value: name,
+      disabled: selected.value.length >= COMPARE_MAX_PROVIDERS && !selected.value.includes(name),
+    })),
+  )
+
+  const hasEnough = computed(() => selected.value.length >= COMPARE_MIN_PROVIDERS)
+
+  const colorOf = (index: number) => COMPARE_COLORS[index % COMPARE_COLORS.length]!
+
+  const bucketsOf = (name: string): ComplianceBucket[] =>
+    [...(seriesByProvider.value.get(name) ?? [])].sort(
+      (a, b) => a.bucket_start_ts - b.bucket_start_ts,
+    )
+
+  const compared = computed<ComparedProvider[]>(() =>
+    selected.value.map((name, i) => {
+      const buckets = bucketsOf(name)
+      return {
+        name,
+        color: colorOf(i),
+        tile: buildProviderTile(
+          name,
+          name,
+          buckets,
+          loadingProviders.value.has(name),
+          undefined,
+          granularity.value,
+        ),
+        fields: fieldBreakdownFor(buckets),
+        totalOutages: buckets.reduce((sum, b) => sum + b.total, 0),
+      }
+    }),
+  )
+
+  const toSeries = (value: (bucket: ComplianceBucket) => number | null): ComparisonSeries[] =>
+    selected.value.map((name, i) => ({
+      key: name,
+      label: name,
+      color: colorOf(i),
+      points: bucketsOf(name).flatMap((b) => {
+        const v = value(b)
+        return v === null ? [] : [{ date: new Date(b.bucket_start_ts * 1000), value: v }]
+      }),
+    }))
+
+  /** Composite completeness as a 0–1 fraction, for a percent axis */
+  const completenessSeries = computed(() =>
+    toSeries((b) => (b.total > 0 ? compositeScore(b) / 100 : null)),
+  )
+
+  const volumeSeries = computed(() => toSeries((b) => b.total))
+
+  // --- Data fetching ---
+
+  let abort: AbortController | null = null
+
+  /** Fetch series for selected providers that are not loaded at this granularity yet */
+  async function loadSelected(names: string[], reset: boolean) {
+    if (reset) {
+      abort?.abort()
+      abort = null
+      analyticsStore.cleanup()
+    }
+    abort ??= new AbortController()
+    const { signal } = abort
+    const missing = names.filter((name) => !seriesByProvider.value.has(name))
+    await Promise.all(
+      missing.map((name) => analyticsStore.fetchProviderSeries(name, granularity.value, signal)),
+    )
+  }
+
+  watch(granularity, () => loadSelected(selected.value, true))
+  // Keyed on the joined names so unrelated query changes don't refetch
+  watch(
+    () => selected.value.join(','),
+    () => loadSelected(selected.value, false),
+  )
+
+  onMounted(() => {
+    // The selection resolves (and loads) once the provider list arrives
+    if (providers.value.length) loadSelected(selected.value, true)
+    else analyticsStore.fetchProviders()
+  })
+
+  onBeforeUnmount(() => {
+    abort?.abort()
+    analyticsStore.cleanup()
+  })
+
+  return {
+    selected,
+    granularity,
+    providerItems,
+    hasEnough,
+    compared,
+    completenessSeries,
+    volumeSeries,
+  }
+}
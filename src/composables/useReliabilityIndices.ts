@@ -0,0 +1,137 @@
+import { ref, computed } from 'vue'
+import type { Ref } from 'vue'
+import { useCustomerBase } from '@/composables/useCustomerBase'
+import {
+  computeIndices,
+  excludeMajorEventDays,
+  indicesByPeriod,
+  majorEventDays,
+} from '@/lib/reliability'
+import type {
+  Granularity,
+  Interruption,
+  ReliabilityIndices,
+  ReliabilityPeriod,
+} from '@/types/analytics'
+import type { ChartPoint } from '@/composables/useAnalyticsData'
+
+/** Pseudo-provider key for all providers with a configured customer base */
+export const ALL_PROVIDERS = '__all__'
+
+export type ReliabilityRow = {
+  provider: string
+  customersServed: number | null
+  indices: ReliabilityIndices | null
+  majorEventDays: number
+}
+
+/**
+ * SAIDI, SAIFI and CAIDI per provider and per period, from restored outages
+ * and a user-configured customer base.
+ */
+export function useReliabilityIndices(interruptions: Ref<Interruption[]>) {
+  const { customerBase, setCustomerBase } = useCustomerBase()
+
+  const granularity = ref<Granularity>('week')
+  const excludeMajorEvents = ref(false)
+  const selectedProvider = ref<string>(ALL_PROVIDERS)
+
+  const byProvider = computed(() => {
+    const groups = new Map<string, Interruption[]>()
+    for (const interruption of interruptions.value) {
+      const list = groups.get(interruption.provider) ?? []
+      list.push(interruption)
+      groups.set(interruption.provider, list)
+    }
+    return groups
+  })
+
+  /** Interruptions per provider after major event day exclusion, when enabled */
+  const included = computed(() => {
+    const result = new Map<string, { interruptions: Interruption[]; majorEventDays: number }>()
+    for (const [provider, list] of byProvider.value) {
+      const served = customerBase.value[provider]
+      if (!excludeMajorEvents.value || !served) {
+        result.set(provider, { interruptions: list, majorEventDays: 0 })
+        continue
+      }
+      const days = majorEventDays(list, served)
+      result.set(provider, {
+        interruptions: excludeMajorEventDays(list, days),
+        majorEventDays: days.size,
+      })
+    }
+    return result
+  })
+
+  const rows = computed<ReliabilityRow[]>(() =>
+    [...included.value.entries()]
+      .map(([provider, entry]) => {
+        const served = customerBase.value[provider] ?? null
+        return {
+          provider,
+          customersServed: served,
+          indices: served ? computeIndices(entry.interruptions, served) : null,
+          majorEventDays: entry.majorEventDays,
+        }
+      })
+      .sort((a, b) => {
+        if (a.indices && b.indices) return a.indices.saidi - b.indices.saidi
+        if (a.indices) return -1
+        if (b.indices) return 1
+        return a.provider.localeCompare(b.provider)
+      }),
+  )
+
+  /** Providers that can be combined into the all-providers figures */
+  const configuredProviders = computed(() =>
+    rows.value.filter((row) => row.customersServed).map((row) => row.provider),
+  )
+
+  const selection = computed(() => {
+    const providers =
+      selectedProvider.value === ALL_PROVIDERS
+        ? configuredProviders.value
+        : [selectedProvider.value]
+    let served = 0
+    const list: Interruption[] = []
+    for (const provider of providers) {
+      const base = customerBase.value[provider]
+      if (!base) continue
+      served += base
+      list.push(...(included.value.get(provider)?.interruptions ?? []))
+    }
+    return { served, interruptions: list }
+  })
+
+  const periods = computed<ReliabilityPeriod[]>(() =>
+    selection.value.served
+      ? indicesByPeriod(selection.value.interruptions, selection.value.served, granularity.value)
+      : [],
+  )
+
+  const saidiPoints = computed<ChartPoint[] | null>(() =>
+    periods.value.length
+      ? periods.value.map((p) => ({
+          date: new Date(p.periodStartTs * 1000),
+          total: Math.round(p.saidi * 100) / 100,
+        }))
+      : null,
+  )
+
+  const providerItems = computed(() => [
+    { value: ALL_PROVIDERS, label: 'All configured providers' },
+    ...configuredProviders.value.map((provider) => ({ value: provider, label: provider })),
+  ])
+
+  return {
+    granularity,
+    excludeMajorEvents,
+    selectedProvider,
+    providerItems,
+    rows,
+    periods,
+    saidiPoints,
+    setCustomerBase,
+  }
+}
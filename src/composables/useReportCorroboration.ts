@@ -0,0 +1,45 @@
+import { computed, type Ref } from 'vue'
+import { corroborateReports } from '@/lib/corroboration'
+import type { Outage } from '@/types/outage'
+import type { UserOutageReport } from '@/types/userOutage'
+
+export interface UseReportCorroborationOptions {
+  reports: Ref<UserOutageReport[]>
+  /** Official outages in the selected timeline block */
+  outages: Ref<Outage[]>
+  blockTs: Ref<number | null>
+}
+
+/**
+ * Links user reports to the official outages on the map, in both directions:
+ * each report's matches and status, and how many reports back each outage.
+ */
+export function useReportCorroboration(options: UseReportCorroborationOptions) {
+  const { reports, outages, blockTs } = options
+
+  const corroboration = computed(() =>
+    corroborateReports(
+      reports.value,
+      outages.value,
+      blockTs.value ?? Math.floor(Date.now() / 1000),
+      Math.floor(Date.now() / 1000),
+    ),
+  )
+
+  /** Outage id → number of reports whose matches include it */
+  const reportCountByOutage = computed(() => {
+    const counts = new Map<number, number>()
+    for (const { matches } of corroboration.value.values()) {
+      for (const match of matches) {
+        counts.set(match.outageId, (counts.get(match.outageId) ?? 0) + 1)
+      }
+    }
+    return counts
+  })
+
+  const unconfirmedCount = computed(
+    () => [...corroboration.value.values()].filter((c) => c.status === 'unconfirmed').length,
+  )
+
+  return { corroboration, reportCountByOutage, unconfirmedCount }
+}
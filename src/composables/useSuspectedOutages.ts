@@ -0,0 +1,84 @@
+import { computed, type Ref } from 'vue'
+import {
+  detectSuspectedOutages,
+  isSuspectedActiveAt,
+  reportsExplainedBy,
+} from '@/lib/suspectedOutages'
+import type { Outage, OutageBlock } from '@/types/outage'
+import type { SuspectedOutage, UserOutageReport } from '@/types/userOutage'
+
+export interface UseSuspectedOutagesOptions {
+  reports: Ref<UserOutageReport[]>
+  /** Every loaded outage; blocks index into this list */
+  outages: Ref<Outage[]>
+  blocks: Ref<OutageBlock[]>
+  selectedTs: Ref<number | null>
+}
+
+/**
+ * Suspected outages from bursts of user reports, counted only where no
+ * official outage in the same timeline block covers them.
+ */
+export function useSuspectedOutages(options: UseSuspectedOutagesOptions) {
+  const { reports, outages, blocks, selectedTs } = options
+
+  const detected = computed(() => detectSuspectedOutages(reports.value))
+
+  const reportsById = computed(() => new Map(reports.value.map((r) => [r.id, r])))
+
+  /**
+   * Per burst, which of its reports each outage explains. Cached per outage
+   * object, so stream deltas only match the outages they add or change; reset
+   * when the bursts are re-detected.
+   */
+  const explainedCache = computed(
+    () => new Map(detected.value.map((s) => [s, new WeakMap<Outage, number[]>()])),
+  )
+
+  const explained = (suspected: SuspectedOutage, outage: Outage, nowSec: number) => {
+    const cache = explainedCache.value.get(suspected)!
+    let ids = cache.get(outage)
+    if (!ids) {
+      ids = reportsExplainedBy(suspected, reportsById.value, outage, nowSec)
+      cache.set(outage, ids)
+    }
+    return ids
+  }
+
+  /**
+   * Bursts active at a block that none of the block's outages explain, i.e.
+   * fewer than half of their reports match one of them
+   */
+  const uncoveredAt = (block: OutageBlock): SuspectedOutage[] => {
+    const active = detected.value.filter((s) => isSuspectedActiveAt(s, block.ts))
+    if (!active.length) return []
+    // Unfiltered on purpose: a hidden provider's outage still covers the area
+    const blockOutages = block.indexes
+      .map((index) => outages.value[index])
+      .filter((o): o is Outage => o !== undefined)
+    const nowSec = Math.floor(Date.now() / 1000)
+    return active.filter((s) => {
+      const matched = new Set(blockOutages.flatMap((o) => explained(s, o, nowSec)))
+      return matched.size * 2 < s.reportIds.length
+    })
+  }
+
+  /** Suspected outages to draw for the selected block */
+  const suspectedOutages = computed(() => {
+    const block = blocks.value.find((b) => b.ts === selectedTs.value)
+    return block ? uncoveredAt(block) : []
+  })
+
+  /** Block ts → number of uncovered suspected outages, for the timeline */
+  const countsByBlockTs = computed(() => {
+    const counts = new Map<number, number>()
+    if (!detected.value.length) return counts
+    for (const block of blocks.value) {
+      const count = uncoveredAt(block).length
+      if (count) counts.set(block.ts, count)
+    }
+    return counts
+  })
+
+  return { suspectedOutages, countsByBlockTs }
+}
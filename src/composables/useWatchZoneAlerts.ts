@@ -0,0 +1,151 @@
+import { ref, watch } from 'vue'
+import { storeToRefs } from 'pinia'
+import { useOutageStore } from '@/stores/outages'
+import { useWatchZoneStore } from '@/stores/watchZones'
+import { outageIntersectsZone } from '@/lib/watchZones'
+import { wktToGeoJSON, type GeoPolygon } from '@/lib/utils'
+import type { Outage } from '@/types/outage'
+import type { WatchZone } from '@/types/watchZone'
+
+/** Outage IDs already announced per zone, so reloads don't repeat notifications */
+const STORAGE_KEY = 'watchZoneAlerts'
+
+type AlertState = Record<number, number[]>
+
+const loadState = (): AlertState => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as AlertState
+  } catch {
+    return {}
+  }
+}
+
+const saveState = (state: AlertState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+}
+
+/** Drop cache entries for outages that are no longer loaded */
+const forgetMissing = (cache: Map<number, unknown>, loaded: Map<number, Outage>) => {
+  for (const id of cache.keys()) if (!loaded.has(id)) cache.delete(id)
+}
+
+const isActive = (outage: Outage, nowSec: number) => outage.endTs === null || outage.endTs > nowSec
+
+/**
+ * Raises a browser notification when an active outage in the loaded data
+ * enters one of the user's watch zones, and again once that outage ends.
+ */
+export function useWatchZoneAlerts() {
+  const outageStore = useOutageStore()
+  const { outages } = storeToRefs(outageStore)
+  const { zones } = storeToRefs(useWatchZoneStore())
+
+  const supported = typeof window !== 'undefined' && 'Notification' in window
+  const permission = ref<NotificationPermission>(supported ? Notification.permission : 'denied')
+
+  const requestPermission = async () => {
+    if (!supported) return
+    permission.value = await Notification.requestPermission()
+  }
+
+  const notify = (title: string, body: string, tag: string) => {
+    if (!supported || permission.value !== 'granted') return
+    try {
+      new Notification(title, { body, tag })
+    } catch (err) {
+      console.warn('[WatchZones] Notification failed:', err)
+    }
+  }
+
+  const describe = (outage: Outage) => {
+    const customers = outage.customerCount ? ` · ${outage.customerCount} customers` : ''
+    return `${outage.provider}${customers}`
+  }
+
+  /** Parsed boundary per outage id, re-parsed only when the outage's WKT changes */
+  const boundaries = new Map<number, { wkt: string | null; geometry: GeoPolygon | null }>()
+
+  /**
+   * Zone hit per outage id, per zone object (an edited zone is a new object).
+   * Entries are reused while the outage's location is unchanged, so each change
+   * only tests the outages it added or moved.
+   */
+  const hits = new WeakMap<WatchZone, Map<number, { outage: Outage; hit: boolean }>>()
+
+  const boundaryOf = (outage: Outage) => {
+    let entry = boundaries.get(outage.id)
+    if (!entry || entry.wkt !== outage.polygon) {
+      entry = {
+        wkt: outage.polygon,
+        geometry: outage.polygon ? wktToGeoJSON(outage.polygon) : null,
+      }
+      boundaries.set(outage.id, entry)
+    }
+    return entry.geometry
+  }
+
+  const sameLocation = (a: Outage, b: Outage) =>
+    a === b || (a.polygon === b.polygon && a.latitude === b.latitude && a.longitude === b.longitude)
+
+  const intersects = (outage: Outage, zone: WatchZone) => {
+    let zoneHits = hits.get(zone)
+    if (!zoneHits) {
+      zoneHits = new Map()
+      hits.set(zone, zoneHits)
+    }
+    const cached = zoneHits.get(outage.id)
+    if (cached && sameLocation(cached.outage, outage)) return cached.hit
+    const hit = outageIntersectsZone(outage, zone, boundaryOf(outage))
+    zoneHits.set(outage.id, { outage, hit })
+    return hit
+  }
+
+  const evaluate = (list: Outage[], watched: WatchZone[]) => {
+    // Zones not loaded yet (or signed out) — keep the stored state as is
+    if (!watched.length) return
+    const state = loadState()
+    const nowSec = Date.now() / 1000
+    const byId = new Map(list.map((o) => [o.id, o]))
+    const next: AlertState = {}
+
+    for (const zone of watched) {
+      const announced = new Set(state[zone.id] ?? [])
+
+      // Ended: announced outages that the loaded data now shows as over.
+      // Announced outages outside the loaded data are kept until seen again.
+      for (const id of announced) {
+        const outage = byId.get(id)
+        if (outage && !isActive(outage, nowSec)) {
+          announced.delete(id)
+          notify(`Power restored in ${zone.name}`, describe(outage), `zone-${zone.id}-${id}`)
+        }
+      }
+
+      for (const outage of list) {
+        if (announced.has(outage.id) || !isActive(outage, nowSec)) continue
+        if (!intersects(outage, zone)) continue
+        announced.add(outage.id)
+        notify(`Outage in ${zone.name}`, describe(outage), `zone-${zone.id}-${outage.id}`)
+      }
+
+      if (announced.size) next[zone.id] = [...announced]
+    }
+
+    // Forget outages that have left the loaded data
+    forgetMissing(boundaries, byId)
+    for (const zone of watched) {
+      const zoneHits = hits.get(zone)
+      if (zoneHits) forgetMissing(zoneHits, byId)
+    }
+
+    saveState(next)
+  }
+
+  watch([outages, zones], ([list, watched]) => evaluate(list, watched))
+
+  return {
+    supported,
+    permission,
+    requestPermission,
+  }
+}
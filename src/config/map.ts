@@ -1,6 +1,7 @@
 /**
  * Map configuration constants
  */
+import type { BoundsLiteral, MapLayerKey } from '@/components/map/types'
 
 // ─────────────────────────────────────────────────────────────
 // Dev Mode Logging
@@ -14,12 +15,39 @@ export const logDevError = (context: string, error: unknown): void => {
   }
 }
 
+// ─────────────────────────────────────────────────────────────
+// Extents
+// ─────────────────────────────────────────────────────────────
+/** How far the map can be panned */
+export const MAP_MAX_BOUNDS: BoundsLiteral = [
+  [10, -170],
+  [90, -30],
+]
+
+/** Populated Canada; "All of Canada" views fit to this */
+export const CANADA_BOUNDS: BoundsLiteral = [
+  [41.5, -141],
+  [70, -52],
+]
+
 // ─────────────────────────────────────────────────────────────
 // Layer Visibility
 // ─────────────────────────────────────────────────────────────
 /** Minimum zoom level at which polygons become visible */
 export const POLYGON_VISIBLE_ZOOM = 5
 
+/** Every map layer; layer lists in map and embed URLs are checked against it */
+export const MAP_LAYER_KEYS: readonly MapLayerKey[] = [
+  'markers',
+  'polygons',
+  'choropleth',
+  'reports',
+  'suspected',
+  'heatmap',
+  'weather',
+  'minimap',
+]
+
 // ─────────────────────────────────────────────────────────────
 // Performance Thresholds
 // ─────────────────────────────────────────────────────────────
@@ -56,12 +84,33 @@ export const OUTAGE_CHUNK_DURATION_SEC = 6 * 3600
 /** Maximum concurrent chunk fetches */
 export const OUTAGE_CHUNK_CONCURRENCY = 3
 
+/** Maximum complete chunk responses kept in memory for reuse across range changes */
+export const OUTAGE_CHUNK_CACHE_LIMIT = 64
+
+/** Size budget (bytes, approximate) for chunk responses persisted in IndexedDB */
+export const OUTAGE_CHUNK_DB_MAX_BYTES = 50 * 1024 * 1024
+
+/** Persisted chunks older than this are ignored and evicted */
+export const OUTAGE_CHUNK_DB_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Chunks ending more recently than this may still gain late-ingested records, so aren't cached */
+export const OUTAGE_CHUNK_SETTLE_SEC = 6 * 3600
+
+/** First live-stream reconnect delay; doubles per failed attempt */
+export const OUTAGE_STREAM_RETRY_MS = 2_000
+
+/** Longest wait between live-stream reconnect attempts */
+export const OUTAGE_STREAM_RETRY_MAX_MS = 60_000
+
 // ─────────────────────────────────────────────────────────────
 // Playback
 // ─────────────────────────────────────────────────────────────
 /** Base interval (ms) for time playback (divided by speed multiplier) */
 export const PLAYBACK_BASE_INTERVAL_MS = 500
 
+/** Time loaded on either side of a storm replay's first/last keyframe (seconds) */
+export const REPLAY_RANGE_PADDING_S = 60 * 60
+
 // ─────────────────────────────────────────────────────────────
 // Colors — resolved at runtime from CSS custom properties
 // ─────────────────────────────────────────────────────────────
@@ -89,6 +138,7 @@ function resolveColors() {
     searchFill: 'rgba(99, 102, 241, 0.15)',
     report: cssVar('--color-secondary-500'),
     reportCluster: cssVar('--color-secondary-600'),
+    unconfirmedReport: cssVar('--color-amber-500'),
   }
 }
 
@@ -124,6 +174,46 @@ export const WEATHER_RADAR_OPACITY = 0.5
 /** z-index for the custom weather pane (between tilePane=200 and overlayPane=400) */
 export const WEATHER_PANE_Z_INDEX = 250
 
+// ─────────────────────────────────────────────────────────────
+// Heatmap (leaflet.heat)
+// ─────────────────────────────────────────────────────────────
+/** Default point radius for the heatmap layer (pixels) */
+export const HEATMAP_DEFAULT_RADIUS = 25
+
+/** Default blur for the heatmap layer (pixels) */
+export const HEATMAP_DEFAULT_BLUR = 15
+
+/** Zoom at which points reach full intensity; lower zooms are scaled down */
+export const HEATMAP_MAX_ZOOM = 6
+
+/** Summed intensity at which a cell saturates to the hottest colour */
+export const HEATMAP_MAX_INTENSITY = 5
+
+/** Customers represented by one unit of intensity in customer-weighted mode */
+export const HEATMAP_CUSTOMERS_PER_UNIT = 1000
+
+// ─────────────────────────────────────────────────────────────
+// Regional Choropleth
+// ─────────────────────────────────────────────────────────────
+/**
+ * Bundled boundary GeoJSON per level (served from public/boundaries).
+ * Each feature needs a `name` property; see public/boundaries/README.md.
+ */
+export const CHOROPLETH_BOUNDARY_URLS = {
+  province: '/boundaries/provinces.geojson',
+  censusDivision: '/boundaries/census-divisions.geojson',
+  fsa: '/boundaries/fsa.geojson',
+} as const
+
+/** Sequential fill ramp, lightest to darkest (one colour per class) */
+export const CHOROPLETH_COLORS = ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15'] as const
+
+/** Fill opacity for shaded regions */
+export const CHOROPLETH_FILL_OPACITY = 0.6
+
+/** Outages outside every (simplified) region snap to one with a vertex this close */
+export const CHOROPLETH_SNAP_KM = 5
+
 // ─────────────────────────────────────────────────────────────
 // Historical Precipitation (Open-Meteo Forecast API)
 // ─────────────────────────────────────────────────────────────
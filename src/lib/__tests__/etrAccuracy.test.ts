@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  ETR_MAX_SLICES,
+  ETR_MIN_SLICE_S,
+  collectEtrTracks,
+  etrRevisionSlices,
+  summarizeEtrAccuracy,
+  toEtrSamples,
+  type EtrTrack,
+} from '../etrAccuracy'
+import type { Outage, OutageResponse } from '../../types/outage'
+
+const HOUR = 3600
+const START = 1_699_999_200 // on the 15-minute grid
+
+const record = (ts: number, etrTs: number | null, endTs: number | null = null): Outage =>
+  ({
+    id: 1,
+    provider: 'Hydro',
+    latitude: 45,
+    longitude: -75,
+    polygon: null,
+    ts,
+    startTs: START,
+    endTs,
+    etrUtc: etrTs === null ? null : new Date(etrTs * 1000).toISOString(),
+  }) as Outage
+
+const response = (...outages: Outage[]): OutageResponse =>
+  ({ outages, blocks: [] }) as unknown as OutageResponse
+
+describe('toEtrSamples', () => {
+  test('counts a revised ETR and keeps the first one published', () => {
+    const tracks = new Map<number, EtrTrack>()
+    // Slices may arrive out of order
+    collectEtrTracks(response(record(START + 2 * HOUR, START + 5 * HOUR)), tracks)
+    collectEtrTracks(response(record(START + HOUR, START + 3 * HOUR)), tracks)
+    collectEtrTracks(response(record(START + 4 * HOUR, START + 5 * HOUR, START + 4 * HOUR)), tracks)
+
+    const [sample] = toEtrSamples(tracks)
+    expect(sample?.revisions).toBe(1)
+    expect(sample?.initialEtrTs).toBe(START + 3 * HOUR)
+    expect(sample?.finalEtrTs).toBe(START + 5 * HOUR)
+    expect(summarizeEtrAccuracy('Hydro', [sample!]).revisedPct).toBe(100)
+  })
+
+  test('ignores ETRs published after restoration', () => {
+    const tracks = new Map<number, EtrTrack>()
+    collectEtrTracks(response(record(START + HOUR, START + 2 * HOUR, START + 2 * HOUR)), tracks)
+    collectEtrTracks(response(record(START + 3 * HOUR, START + 6 * HOUR, START + 2 * HOUR)), tracks)
+
+    expect(toEtrSamples(tracks)[0]?.revisions).toBe(0)
+  })
+})
+
+describe('etrRevisionSlices', () => {
+  const track = (provider: string, startTs: number, endTs: number | null): EtrTrack => ({
+    provider,
+    startTs,
+    endTs,
+    observations: [{ ts: startTs, etrTs: startTs + HOUR }],
+  })
+
+  test("covers each restored outage's life within the slice budget", () => {
+    const tracks = new Map([[1, track('Hydro', START, START + 30 * HOUR)]])
+    const slices = etrRevisionSlices(tracks, 0)
+
+    expect(slices.length).toBeLessThanOrEqual(ETR_MAX_SLICES + 1)
+    expect(slices[0]!.since).toBeLessThanOrEqual(START)
+    expect(slices[slices.length - 1]!.until).toBeGreaterThanOrEqual(START + 30 * HOUR)
+    expect((slices[0]!.until - slices[0]!.since) % ETR_MIN_SLICE_S).toBe(0)
+  })
+
+  test('shares slices between outages of one provider and skips the rest', () => {
+    const tracks = new Map([
+      [1, track('Hydro', START, START + HOUR)],
+      [2, track('Hydro', START, START + HOUR)],
+      [3, track('Other', START, START + HOUR)],
+      [4, track('Hydro', START, null)],
+      [5, track('Hydro', START - 10 * HOUR, START - 9 * HOUR)],
+    ])
+    const slices = etrRevisionSlices(tracks, START)
+
+    expect(slices.filter((s) => s.provider === 'Hydro').length).toBe(4)
+    expect(slices.filter((s) => s.provider === 'Other').length).toBe(4)
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, expect, test } from 'bun:test'
+import { csvCell } from '../outageExport'
+
+describe('csvCell', () => {
+  test('neutralizes text a spreadsheet would run as a formula', () => {
+    expect(csvCell('=HYPERLINK("http://x")')).toBe(`"'=HYPERLINK(""http://x"")"`)
+    expect(csvCell('+1')).toBe("'+1")
+    expect(csvCell('-tree contact')).toBe("'-tree contact")
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)")
+  })
+
+  test('leaves numbers and ordinary text alone', () => {
+    expect(csvCell(-75.7)).toBe('-75.7')
+    expect(csvCell(12)).toBe('12')
+    expect(csvCell('Tree contact, wind')).toBe('"Tree contact, wind"')
+    expect(csvCell(null)).toBe('')
+  })
+})
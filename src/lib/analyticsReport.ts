@@ -0,0 +1,273 @@
+import { createApp, nextTick, type Component } from 'vue'
+import type { ComplianceBucket } from '@/types/analytics'
+import { complianceFields, compositeScore, fieldBreakdownFor } from '@/composables/useAnalyticsData'
+import type { FieldBreakdownItem } from '@/composables/useAnalyticsData'
+import { csvCell } from '@/lib/outageExport'
+
+export type AnalyticsReportFormat = 'pdf' | 'html' | 'csv'
+
+/** PDF goes through the browser's print dialog ("Save as PDF"); the rest download */
+export const ANALYTICS_REPORT_FORMATS: {
+  value: AnalyticsReportFormat
+  label: string
+  icon: string
+}[] = [
+  { value: 'pdf', label: 'Print / Save as PDF', icon: 'i-heroicons-printer' },
+  { value: 'html', label: 'HTML', icon: 'i-heroicons-arrow-down-tray' },
+  { value: 'csv', label: 'CSV', icon: 'i-heroicons-arrow-down-tray' },
+]
+
+/** Days listed in the report's "worst days" table */
+const WORST_DAYS_LIMIT = 10
+
+export type ReportDay = { date: Date; score: number; total: number }
+
+export type ReportSummary = {
+  overallScore: number | null
+  totalOutages: number
+  fields: FieldBreakdownItem[] | null
+  fieldsAbove80: number
+  worstDays: ReportDay[]
+}
+
+export type ReportInput = {
+  providerLabel: string
+  since: Date
+  until: Date
+  /** Daily compliance buckets for the range */
+  buckets: ComplianceBucket[]
+  /** Chart SVGs from `renderChartSvg`; empty when the range has no data */
+  charts: { completeness: string; volume: string }
+}
+
+// ─── Summary ────────────────────────────────────────────────
+
+export function summarizeReport(buckets: ComplianceBucket[]): ReportSummary {
+  const withData = buckets.filter((b) => b.total > 0)
+  const totalOutages = withData.reduce((sum, b) => sum + b.total, 0)
+  const overallScore = totalOutages
+    ? Math.round(withData.reduce((sum, b) => sum + compositeScore(b) * b.total, 0) / totalOutages)
+    : null
+  const fields = fieldBreakdownFor(buckets)
+  const worstDays = withData
+    .map((b) => ({
+      date: new Date(b.bucket_start_ts * 1000),
+      score: compositeScore(b),
+      total: b.total,
+    }))
+    // Lowest score first; on ties, the busier day matters more
+    .sort((a, b) => a.score - b.score || b.total - a.total)
+    .slice(0, WORST_DAYS_LIMIT)
+  return {
+    overallScore,
+    totalOutages,
+    fields,
+    fieldsAbove80: fields?.filter((f) => f.pct >= 80).length ?? 0,
+    worstDays,
+  }
+}
+
+// ─── CSV ────────────────────────────────────────────────────
+
+const BUCKET_COLUMNS = [
+  'provider',
+  'granularity',
+  'bucket_start_ts',
+  'bucket_end_ts',
+  'total',
+  ...complianceFields.map((f) => f.value),
+  'fetch_ts_max',
+  'computed_at',
+] as const satisfies readonly (keyof ComplianceBucket)[]
+
+/** The raw compliance series, one row per bucket, oldest first */
+export const complianceBucketsToCSV = (buckets: ComplianceBucket[]): string => {
+  const rows = [...buckets]
+    .sort((a, b) => a.bucket_start_ts - b.bucket_start_ts)
+    .map((bucket) => BUCKET_COLUMNS.map((key) => csvCell(bucket[key] ?? null)).join(','))
+  return [BUCKET_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+// ─── Charts ─────────────────────────────────────────────────
+
+const CHART_WIDTH = 640
+
+/** Presentation properties copied onto each chart element when exporting */
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-opacity',
+  'stroke-width',
+  'opacity',
+  'font-size',
+] as const
+
+/**
+ * Render an analytics chart component (CompletenessChart, OutageChart)
+ * off-screen and return its SVG with the computed styles inlined, so the
+ * report draws the same chart as the dashboard without the app's stylesheet.
+ * Light theme regardless of the app's, since reports are read on paper.
+ */
+export async function renderChartSvg(
+  component: Component,
+  props: Record<string, unknown>,
+): Promise<string> {
+  const host = document.createElement('div')
+  host.className = 'light'
+  host.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${CHART_WIDTH}px`
+  document.body.appendChild(host)
+  const app = createApp(component, props)
+  try {
+    app.mount(host)
+    // The charts draw on the tick after mounting
+    await nextTick()
+    const svg = host.querySelector('svg')
+    if (!svg) return ''
+    for (const el of svg.querySelectorAll<SVGElement>('path, line, text')) {
+      const style = getComputedStyle(el)
+      for (const prop of INLINED_STYLES) el.setAttribute(prop, style.getPropertyValue(prop))
+      el.removeAttribute('class')
+    }
+    const width = svg.getAttribute('width')
+    const height = svg.getAttribute('height')
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+    svg.setAttribute('viewBox', `0 0 ${width} ${height}`)
+    svg.setAttribute('width', '100%')
+    svg.removeAttribute('height')
+    return svg.outerHTML
+  } finally {
+    app.unmount()
+    host.remove()
+  }
+}
+
+// ─── HTML ───────────────────────────────────────────────────
+
+const htmlEscape = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+/** Theme brand colour, resolved so the exported file keeps it */
+const brandColor = (): string =>
+  getComputedStyle(document.documentElement).getPropertyValue('--color-primary-500').trim() ||
+  '#10b981'
+
+/** A complete, standalone HTML document for the report */
+export function buildReportHtml(input: ReportInput): string {
+  const summary = summarizeReport(input.buckets)
+  const color = brandColor()
+
+  const fieldRows = (summary.fields ?? [])
+    .map(
+      (f) =>
+        `<tr><td>${htmlEscape(f.label)}</td>` +
+        `<td class="bar"><span style="width:${f.pct}%;background:${color}"></span></td>` +
+        `<td class="num">${f.pct}%</td></tr>`,
+    )
+    .join('')
+  const worstRows = summary.worstDays
+    .map(
+      (d) =>
+        `<tr><td>${formatDay(d.date)}</td><td class="num">${d.score}%</td>` +
+        `<td class="num">${d.total.toLocaleString()}</td></tr>`,
+    )
+    .join('')
+
+  const title = `${input.providerLabel} — Outage data report`
+  const period = `${formatDay(input.since)} – ${formatDay(input.until)}`
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${htmlEscape(title)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #0f172a; margin: 0; }
+  main { max-width: 720px; margin: 0 auto; padding: 32px 24px; }
+  header { border-bottom: 3px solid ${color}; padding-bottom: 16px; margin-bottom: 24px; }
+  .brand { font-weight: 700; color: ${color}; letter-spacing: 0.02em; }
+  h1 { font-size: 22px; margin: 4px 0; }
+  h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; margin: 28px 0 8px; }
+  .muted { color: #64748b; font-size: 12px; }
+  .stats { display: flex; gap: 12px; }
+  .stat { flex: 1; border: 1px solid #e2e8f0; border-radius: 10px; padding: 12px; text-align: center; }
+  .stat b { display: block; font-size: 22px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  td, th { padding: 6px 4px; border-bottom: 1px solid #f1f5f9; text-align: left; }
+  th { color: #64748b; font-weight: 500; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .bar { width: 55%; }
+  .bar span { display: block; height: 6px; border-radius: 3px; }
+  section { break-inside: avoid; }
+  @media print { main { padding: 0; } }
+</style>
+</head>
+<body>
+<main>
+  <header>
+    <div class="brand">OutageHub</div>
+    <h1>${htmlEscape(input.providerLabel)}</h1>
+    <div class="muted">Outage data report · ${period} · generated ${formatDay(new Date())}</div>
+  </header>
+
+  <section>
+    <h2>Compliance summary</h2>
+    <div class="stats">
+      <div class="stat"><b>${summary.overallScore === null ? '–' : `${summary.overallScore}%`}</b><span class="muted">Completeness</span></div>
+      <div class="stat"><b>${summary.totalOutages.toLocaleString()}</b><span class="muted">Outages tracked</span></div>
+      <div class="stat"><b>${summary.fieldsAbove80}/${complianceFields.length}</b><span class="muted">Fields above 80%</span></div>
+    </div>
+  </section>
+
+  <section>
+    <h2>Completeness over time</h2>
+    ${input.charts.completeness || '<p class="muted">No outages in this period.</p>'}
+  </section>
+
+  <section>
+    <h2>Field completeness</h2>
+    ${fieldRows ? `<table>${fieldRows}</table>` : '<p class="muted">No outages in this period.</p>'}
+  </section>
+
+  <section>
+    <h2>Outage volume</h2>
+    ${input.charts.volume || '<p class="muted">No outages in this period.</p>'}
+  </section>
+
+  <section>
+    <h2>Worst days</h2>
+    ${
+      worstRows
+        ? `<table><thead><tr><th>Day</th><th class="num">Completeness</th><th class="num">Outages</th></tr></thead><tbody>${worstRows}</tbody></table>`
+        : '<p class="muted">No outages in this period.</p>'
+    }
+  </section>
+</main>
+</body>
+</html>
+`
+}
+
+/**
+ * Open the browser's print dialog for a report, from which it can be saved as
+ * PDF. Printing from a hidden frame keeps popup blockers out of the way.
+ */
+export function printReport(html: string): void {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.srcdoc = html
+  frame.onload = () => {
+    const win = frame.contentWindow
+    if (!win) return
+    win.addEventListener('afterprint', () => frame.remove(), { once: true })
+    win.focus()
+    win.print()
+  }
+  document.body.appendChild(frame)
+}
@@ -0,0 +1,157 @@
+import type { Feature, FeatureCollection, Position } from 'geojson'
+import type { Outage } from '@/types/outage'
+import type { ChoroplethLevel, ChoroplethMetric } from '@/components/map/types'
+import { CHOROPLETH_BOUNDARY_URLS, CHOROPLETH_COLORS, CHOROPLETH_SNAP_KM } from '@/config/map'
+import { pointInGeometry } from '@/lib/watchZones'
+import {
+  bboxContains,
+  geometryBBox,
+  haversineDistance,
+  type GeoBBox,
+  type GeoPolygon,
+} from '@/lib/utils'
+
+export type RegionFeature = Feature<GeoPolygon, { name?: string }>
+
+export interface RegionTotals {
+  customers: number
+  outages: number
+}
+
+const boundaryCache = new Map<ChoroplethLevel, Promise<RegionFeature[]>>()
+
+/** Fetch the bundled boundaries for a level once; failed loads are retried next call */
+export function loadRegionBoundaries(level: ChoroplethLevel): Promise<RegionFeature[]> {
+  let pending = boundaryCache.get(level)
+  if (!pending) {
+    pending = fetch(CHOROPLETH_BOUNDARY_URLS[level])
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const data = (await response.json()) as FeatureCollection
+        return data.features.filter(
+          (f): f is RegionFeature =>
+            f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon',
+        )
+      })
+      .catch((error) => {
+        boundaryCache.delete(level)
+        throw error
+      })
+    boundaryCache.set(level, pending)
+  }
+  return pending
+}
+
+let bundledLevels: Promise<ChoroplethLevel[]> | null = null
+
+/**
+ * Levels whose boundary file is deployed. The census-division and FSA files
+ * come from `bun run boundaries`, so a checkout may not have them. Dev servers
+ * and SPA hosts answer a missing file with index.html, which counts as missing.
+ */
+export function loadBundledLevels(): Promise<ChoroplethLevel[]> {
+  bundledLevels ??= Promise.all(
+    (Object.keys(CHOROPLETH_BOUNDARY_URLS) as ChoroplethLevel[]).map(async (level) => {
+      try {
+        const response = await fetch(CHOROPLETH_BOUNDARY_URLS[level], { method: 'HEAD' })
+        const type = response.headers.get('content-type') ?? ''
+        return response.ok && !type.includes('text/html') ? level : null
+      } catch {
+        return null
+      }
+    }),
+  ).then((levels) => levels.filter((level): level is ChoroplethLevel => level !== null))
+  return bundledLevels
+}
+
+const ringsOf = (geometry: GeoPolygon): Position[][] =>
+  geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat()
+
+/**
+ * Region with a vertex nearest the point, within CHOROPLETH_SNAP_KM. Simplified
+ * coastlines cut off harbour-front points (downtown Halifax falls in the sea
+ * at province level), so those snap to the nearest shore.
+ */
+const nearestRegion = (
+  regions: RegionFeature[],
+  boxes: GeoBBox[],
+  lat: number,
+  lon: number,
+): RegionFeature | undefined => {
+  const padLat = CHOROPLETH_SNAP_KM / 111
+  const padLon = padLat / Math.max(Math.cos((lat * Math.PI) / 180), 0.01)
+  let best: RegionFeature | undefined
+  let bestKm = CHOROPLETH_SNAP_KM
+  regions.forEach((region, i) => {
+    const [west, south, east, north] = boxes[i]!
+    if (lon < west - padLon || lon > east + padLon || lat < south - padLat || lat > north + padLat)
+      return
+    for (const ring of ringsOf(region.geometry)) {
+      for (const [vLon, vLat] of ring as [number, number][]) {
+        const km = haversineDistance([lat, lon], [vLat, vLon])
+        if (km <= bestKm) {
+          bestKm = km
+          best = region
+        }
+      }
+    }
+  })
+  return best
+}
+
+/**
+ * Sum customers and outages per region. Each outage counts toward the first
+ * region containing its point, else the nearest region within
+ * CHOROPLETH_SNAP_KM; outages farther out than that are dropped.
+ */
+export function aggregateByRegion(
+  regions: RegionFeature[],
+  outages: Outage[],
+): Map<RegionFeature, RegionTotals> {
+  const totals = new Map<RegionFeature, RegionTotals>()
+  const boxes = regions.map((region) => geometryBBox(region.geometry))
+
+  for (const outage of outages) {
+    const { latitude: lat, longitude: lon } = outage
+    const index = regions.findIndex(
+      (region, i) =>
+        bboxContains(boxes[i]!, lat, lon) && pointInGeometry(lat, lon, region.geometry),
+    )
+    const region = regions[index] ?? nearestRegion(regions, boxes, lat, lon)
+    if (!region) continue
+    const entry = totals.get(region) ?? { customers: 0, outages: 0 }
+    entry.customers += outage.customerCount ?? 0
+    entry.outages += 1
+    totals.set(region, entry)
+  }
+  return totals
+}
+
+export const metricValue = (totals: RegionTotals | undefined, metric: ChoroplethMetric): number =>
+  !totals ? 0 : metric === 'customers' ? totals.customers : totals.outages
+
+/**
+ * Quantile class breaks over the non-zero values: returns the lower bound of
+ * each class, at most one per colour in the ramp.
+ */
+export function quantileBreaks(values: number[]): number[] {
+  const sorted = values.filter((v) => v > 0).sort((a, b) => a - b)
+  if (!sorted.length) return []
+  const classes = CHOROPLETH_COLORS.length
+  const breaks: number[] = []
+  for (let i = 0; i < classes; i++) {
+    const value = sorted[Math.floor((i / classes) * sorted.length)]!
+    if (breaks[breaks.length - 1] !== value) breaks.push(value)
+  }
+  return breaks
+}
+
+/** Ramp colour for a value, or null for regions with nothing to shade */
+export function colorForValue(value: number, breaks: number[]): string | null {
+  if (value <= 0 || !breaks.length) return null
+  let index = 0
+  while (index + 1 < breaks.length && value >= breaks[index + 1]!) index++
+  // Spread fewer classes across the full ramp so the top class is always darkest
+  const ramp = Math.round((index / Math.max(1, breaks.length - 1)) * (CHOROPLETH_COLORS.length - 1))
+  return CHOROPLETH_COLORS[breaks.length === 1 ? CHOROPLETH_COLORS.length - 1 : ramp]!
+}
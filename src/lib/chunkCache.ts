@@ -0,0 +1,179 @@
+import type { OutageResponse } from '@/types/outage'
+import { OUTAGE_CHUNK_DB_MAX_AGE_MS, OUTAGE_CHUNK_DB_MAX_BYTES } from '@/config/map'
+
+// ─────────────────────────────────────────────────────────────
+// Persistent outage chunk cache (IndexedDB)
+// ─────────────────────────────────────────────────────────────
+// Historical chunks never change, so complete chunk responses are kept across
+// sessions. Responses and their bookkeeping live in separate object stores so
+// eviction can scan sizes/ages without deserializing every response.
+
+const DB_NAME = 'ohub-outage-cache'
+// v2: chunks cached by v1 may hold unsettled data, so the upgrade drops them
+const DB_VERSION = 2
+const CHUNK_STORE = 'chunks'
+const META_STORE = 'meta'
+
+type ChunkMeta = {
+  key: string
+  size: number
+  savedAt: number
+}
+
+let _dbPromise: Promise<IDBDatabase | null> | null = null
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+/** Open (or create) the database; resolves to null where IndexedDB is unavailable */
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (_dbPromise) return _dbPromise
+  _dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null)
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      if (event.oldVersion < 2) {
+        for (const name of [CHUNK_STORE, META_STORE]) {
+          if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name)
+        }
+      }
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) db.createObjectStore(CHUNK_STORE)
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        const meta = db.createObjectStore(META_STORE, { keyPath: 'key' })
+        meta.createIndex('savedAt', 'savedAt')
+      }
+    }
+    let blocked = false
+    request.onsuccess = () => {
+      const db = request.result
+      // Opened after we gave up on it; don't hold a connection nobody uses
+      if (blocked) {
+        db.close()
+        return
+      }
+      // Let another tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        _dbPromise = null
+      }
+      resolve(db)
+    }
+    request.onerror = () => {
+      console.warn('[ChunkCache] IndexedDB unavailable:', request.error)
+      resolve(null)
+    }
+    // Another tab is holding an older version open; load without the cache rather than wait,
+    // and try again on the next load
+    request.onblocked = () => {
+      console.warn('[ChunkCache] IndexedDB open blocked by another tab')
+      blocked = true
+      _dbPromise = null
+      resolve(null)
+    }
+  })
+  return _dbPromise
+}
+
+/**
+ * Read persisted chunk responses for the given keys.
+ * Expired entries are treated as missing; failures resolve to an empty map.
+ */
+export const readChunks = async (keys: string[]): Promise<Map<string, OutageResponse>> => {
+  const found = new Map<string, OutageResponse>()
+  if (!keys.length) return found
+  const db = await openDb()
+  if (!db) return found
+
+  try {
+    const tx = db.transaction([CHUNK_STORE, META_STORE], 'readonly')
+    const chunks = tx.objectStore(CHUNK_STORE)
+    const meta = tx.objectStore(META_STORE)
+    const cutoff = Date.now() - OUTAGE_CHUNK_DB_MAX_AGE_MS
+
+    // Issue every request up front so the transaction stays active
+    await Promise.all(
+      keys.map(async (key) => {
+        const [info, response] = await Promise.all([
+          requestToPromise(meta.get(key)) as Promise<ChunkMeta | undefined>,
+          requestToPromise(chunks.get(key)) as Promise<OutageResponse | undefined>,
+        ])
+        if (info && response && info.savedAt >= cutoff) found.set(key, response)
+      }),
+    )
+  } catch (err) {
+    console.warn('[ChunkCache] Read failed:', err)
+  }
+  return found
+}
+
+/** Persist a complete chunk response, then evict by age and total size */
+export const writeChunk = async (key: string, response: OutageResponse): Promise<void> => {
+  const db = await openDb()
+  if (!db) return
+
+  try {
+    // Approximate on-disk size by serialized length
+    const size = JSON.stringify(response).length
+    const tx = db.transaction([CHUNK_STORE, META_STORE], 'readwrite')
+    tx.objectStore(CHUNK_STORE).put(response, key)
+    tx.objectStore(META_STORE).put({ key, size, savedAt: Date.now() } satisfies ChunkMeta)
+    await transactionDone(tx)
+    await evictChunks(db)
+  } catch (err) {
+    console.warn('[ChunkCache] Write failed:', err)
+  }
+}
+
+/** Delete expired entries, then the oldest entries until the total fits the size budget */
+const evictChunks = async (db: IDBDatabase): Promise<void> => {
+  const tx = db.transaction([CHUNK_STORE, META_STORE], 'readwrite')
+  const chunks = tx.objectStore(CHUNK_STORE)
+  const meta = tx.objectStore(META_STORE)
+
+  // Oldest first
+  const entries = (await requestToPromise(meta.index('savedAt').getAll())) as ChunkMeta[]
+  const cutoff = Date.now() - OUTAGE_CHUNK_DB_MAX_AGE_MS
+  let total = entries.reduce((sum, e) => sum + e.size, 0)
+
+  for (const entry of entries) {
+    if (entry.savedAt >= cutoff && total <= OUTAGE_CHUNK_DB_MAX_BYTES) break
+    chunks.delete(entry.key)
+    meta.delete(entry.key)
+    total -= entry.size
+  }
+  await transactionDone(tx)
+}
+
+/** Remove the given persisted chunks (e.g. the range a forced refetch reloads) */
+export const deleteChunks = async (keys: string[]): Promise<void> => {
+  if (!keys.length) return
+  const db = await openDb()
+  if (!db) return
+
+  try {
+    const tx = db.transaction([CHUNK_STORE, META_STORE], 'readwrite')
+    const chunks = tx.objectStore(CHUNK_STORE)
+    const meta = tx.objectStore(META_STORE)
+    for (const key of keys) {
+      chunks.delete(key)
+      meta.delete(key)
+    }
+    await transactionDone(tx)
+  } catch (err) {
+    console.warn('[ChunkCache] Delete failed:', err)
+  }
+}
@@ -0,0 +1,95 @@
+import type { Outage } from '@/types/outage'
+import type { ReportCorroboration, ReportOutageMatch, UserOutageReport } from '@/types/userOutage'
+import { haversineDistance } from '@/lib/utils'
+import { pointInBoundary } from '@/lib/watchZones'
+
+/** Reports this far from the outage point count as attached when it has no boundary match */
+export const REPORT_MATCH_RADIUS_KM = 2
+
+/** Reports this long before the start or after the end still count */
+export const REPORT_MATCH_SLACK_S = 3600
+
+/**
+ * A report made this long before the selected time with no official outage
+ * nearby is unconfirmed; older reports are left unchecked.
+ */
+const UNCONFIRMED_LOOKBACK_S = 6 * 3600
+
+/** Weight of spatial closeness in the match score; time gets the rest */
+const SPATIAL_WEIGHT = 0.6
+
+const reportTsOf = (report: UserOutageReport) => report.observedTs ?? report.createdAt
+
+/**
+ * Score a user report against one official outage, or null when it does not
+ * match: a different provider, outside the outage's life (with an hour of
+ * slack), or neither inside any of `polygons` nor near the outage point.
+ */
+export function matchReportToOutage(
+  report: UserOutageReport,
+  outage: Outage,
+  polygons: (string | null)[],
+  nowSec: number,
+): ReportOutageMatch | null {
+  if (report.provider && report.provider !== outage.provider) return null
+
+  const reportTs = reportTsOf(report)
+  const end = outage.endTs ?? nowSec
+  const gap = Math.max(0, outage.startTs - reportTs, reportTs - end)
+  if (gap > REPORT_MATCH_SLACK_S) return null
+
+  // Cheap tests first: this runs for every report × outage on each timeline step
+  const distanceKm = haversineDistance(
+    [report.latitude, report.longitude],
+    [outage.latitude, outage.longitude],
+  )
+  const near = distanceKm <= REPORT_MATCH_RADIUS_KM
+  if (!near && !polygons.some(Boolean)) return null
+
+  let insideBoundary = false
+  for (const wkt of polygons) {
+    if (wkt && pointInBoundary(report.latitude, report.longitude, wkt)) {
+      insideBoundary = true
+      break
+    }
+  }
+  if (!insideBoundary && !near) return null
+
+  const spatial = insideBoundary ? 1 : 1 - distanceKm / REPORT_MATCH_RADIUS_KM
+  const temporal = 1 - gap / REPORT_MATCH_SLACK_S
+  return {
+    outageId: outage.id,
+    provider: outage.provider,
+    distanceKm: insideBoundary ? 0 : distanceKm,
+    insideBoundary,
+    score: SPATIAL_WEIGHT * spatial + (1 - SPATIAL_WEIGHT) * temporal,
+  }
+}
+
+/**
+ * Link each report to the official outages shown at `blockTs`. Reports with
+ * no match made shortly before that time are the under-reporting signal.
+ */
+export function corroborateReports(
+  reports: UserOutageReport[],
+  outages: Outage[],
+  blockTs: number,
+  nowSec: number,
+): Map<number, ReportCorroboration> {
+  const result = new Map<number, ReportCorroboration>()
+  for (const report of reports) {
+    const matches: ReportOutageMatch[] = []
+    for (const outage of outages) {
+      const match = matchReportToOutage(report, outage, [outage.polygon], nowSec)
+      if (match) matches.push(match)
+    }
+    matches.sort((a, b) => b.score - a.score)
+
+    const reportTs = reportTsOf(report)
+    const inWindow =
+      reportTs >= blockTs - UNCONFIRMED_LOOKBACK_S && reportTs <= blockTs + REPORT_MATCH_SLACK_S
+    const status = matches.length ? 'confirmed' : inWindow ? 'unconfirmed' : 'unchecked'
+    result.set(report.id, { status, matches })
+  }
+  return result
+}
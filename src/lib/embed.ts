@@ -0,0 +1,76 @@
+import type { LocationQuery } from 'vue-router'
+import { MAP_LAYER_KEYS } from '@/config/map'
+import { boundsToParam, isBoundsLiteral, parseBoundsParam } from '@/lib/utils'
+import type { MapLayerKey } from '@/components/map/types'
+import type { EmbedHostMessage, EmbedOptions, EmbedTheme } from '@/types/embed'
+
+const EMBED_THEMES: EmbedTheme[] = ['light', 'dark', 'auto']
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  theme: 'auto',
+  bounds: null,
+  layers: null,
+  timeline: true,
+  autoRefresh: false,
+  origin: null,
+}
+
+const first = (value: LocationQuery[string] | undefined): string | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null
+
+const parseFlag = (value: string | null, fallback: boolean): boolean =>
+  value === null ? fallback : value === '1' || value === 'true'
+
+/** Read embed options from the iframe URL query, falling back to defaults */
+export function parseEmbedOptions(query: LocationQuery): EmbedOptions {
+  const theme = first(query.theme) as EmbedTheme | null
+  const layers = first(query.layers)
+  return {
+    theme: theme && EMBED_THEMES.includes(theme) ? theme : DEFAULT_EMBED_OPTIONS.theme,
+    bounds: parseBoundsParam(first(query.bounds)),
+    layers:
+      layers === null
+        ? null
+        : layers
+            .split(',')
+            .filter((key): key is MapLayerKey => MAP_LAYER_KEYS.includes(key as MapLayerKey)),
+    timeline: parseFlag(first(query.timeline), DEFAULT_EMBED_OPTIONS.timeline),
+    autoRefresh: parseFlag(first(query.refresh), DEFAULT_EMBED_OPTIONS.autoRefresh),
+    origin: first(query.origin),
+  }
+}
+
+/** Serialize embed options to query params, omitting defaults */
+export function embedOptionsToQuery(options: EmbedOptions): Record<string, string> {
+  const query: Record<string, string> = {}
+  if (options.theme !== DEFAULT_EMBED_OPTIONS.theme) query.theme = options.theme
+  if (options.bounds) query.bounds = boundsToParam(options.bounds)
+  if (options.layers) query.layers = options.layers.join(',')
+  if (options.timeline !== DEFAULT_EMBED_OPTIONS.timeline)
+    query.timeline = options.timeline ? '1' : '0'
+  if (options.autoRefresh !== DEFAULT_EMBED_OPTIONS.autoRefresh) {
+    query.refresh = options.autoRefresh ? '1' : '0'
+  }
+  if (options.origin) query.origin = options.origin
+  return query
+}
+
+/**
+ * Type guard for messages sent by a host page, payload included: the host is
+ * untrusted, so malformed messages are dropped rather than reaching the map.
+ */
+export function isEmbedHostMessage(data: unknown): data is EmbedHostMessage {
+  if (typeof data !== 'object' || data === null) return false
+  const message = data as Record<string, unknown>
+  if (message.source !== 'ohub-host') return false
+  switch (message.type) {
+    case 'setProvider':
+      return message.provider === null || typeof message.provider === 'string'
+    case 'setTime':
+      return message.ts === null || Number.isFinite(message.ts)
+    case 'setBounds':
+      return isBoundsLiteral(message.bounds)
+    default:
+      return false
+  }
+}
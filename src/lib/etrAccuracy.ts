@@ -0,0 +1,161 @@
+import type { Outage, OutageResponse } from '@/types/outage'
+import type { EtrAccuracyStats, EtrSample } from '@/types/analytics'
+
+/** A restoration this close to the initial ETR (either side) counts as on time */
+export const ETR_ON_TIME_TOLERANCE_S = 60 * 60
+
+/** Revision requests per restored outage at most */
+export const ETR_MAX_SLICES = 24
+
+/** Shortest revision slice, about the feed's update cadence */
+export const ETR_MIN_SLICE_S = 15 * 60
+
+type EtrObservation = { ts: number; etrTs: number }
+
+/** Everything seen for one outage id across the fetched chunks */
+export type EtrTrack = {
+  provider: string
+  startTs: number
+  endTs: number | null
+  observations: EtrObservation[]
+}
+
+const parseEtr = (outage: Outage): number | null => {
+  if (!outage.etrUtc) return null
+  const ms = Date.parse(outage.etrUtc)
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000)
+}
+
+/**
+ * Fold the records of one `/outages` response into per-outage tracks. Chunks
+ * may arrive in any order; observations are sorted when the track is read.
+ */
+export function collectEtrTracks(response: OutageResponse, tracks: Map<number, EtrTrack>) {
+  for (const outage of response.outages) {
+    let track = tracks.get(outage.id)
+    if (!track) {
+      track = {
+        provider: outage.provider,
+        startTs: outage.startTs,
+        endTs: outage.endTs,
+        observations: [],
+      }
+      tracks.set(outage.id, track)
+    }
+    if (outage.endTs !== null) track.endTs = outage.endTs
+    const etrTs = parseEtr(outage)
+    if (etrTs !== null) track.observations.push({ ts: outage.ts, etrTs })
+  }
+}
+
+export type EtrSlice = { provider: string; since: number; until: number }
+
+/**
+ * `/outages` requests that sample each restored outage's ETR across its life.
+ * A request returns one record per outage, so day-long history windows see at
+ * most one ETR a day and miss revisions. Slice lengths double from
+ * `ETR_MIN_SLICE_S` and sit on a shared grid, so outages of one provider with
+ * similar durations share requests.
+ */
+export function etrRevisionSlices(
+  tracks: Map<number, EtrTrack>,
+  restoredSince: number,
+): EtrSlice[] {
+  const slices = new Map<string, EtrSlice>()
+  for (const track of tracks.values()) {
+    if (track.endTs === null || track.endTs < restoredSince || !track.observations.length) continue
+    let sliceS = ETR_MIN_SLICE_S
+    while ((track.endTs - track.startTs) / sliceS > ETR_MAX_SLICES) sliceS *= 2
+    for (let t = Math.floor(track.startTs / sliceS) * sliceS; t < track.endTs; t += sliceS) {
+      const key = `${track.provider}:${t}:${sliceS}`
+      if (!slices.has(key))
+        slices.set(key, { provider: track.provider, since: t, until: t + sliceS })
+    }
+  }
+  return [...slices.values()]
+}
+
+/** Restored outages with at least one ETR, as samples */
+export function toEtrSamples(tracks: Map<number, EtrTrack>): EtrSample[] {
+  const samples: EtrSample[] = []
+  for (const [outageId, track] of tracks) {
+    if (track.endTs === null || !track.observations.length) continue
+    // ETRs published after restoration are clean-up, not predictions
+    const observations = track.observations
+      .filter((o) => o.ts <= track.endTs!)
+      .sort((a, b) => a.ts - b.ts)
+    if (!observations.length) continue
+
+    let revisions = 0
+    for (let i = 1; i < observations.length; i++) {
+      if (observations[i]!.etrTs !== observations[i - 1]!.etrTs) revisions++
+    }
+    samples.push({
+      outageId,
+      provider: track.provider,
+      startTs: track.startTs,
+      endTs: track.endTs,
+      initialEtrTs: observations[0]!.etrTs,
+      finalEtrTs: observations[observations.length - 1]!.etrTs,
+      revisions,
+    })
+  }
+  return samples
+}
+
+/** Restoration error against the initial ETR, in seconds; positive means late */
+export const etrErrorSec = (sample: EtrSample) => sample.endTs - sample.initialEtrTs
+
+export const isOnTime = (sample: EtrSample) =>
+  Math.abs(etrErrorSec(sample)) <= ETR_ON_TIME_TOLERANCE_S
+
+/** Nearest-rank percentile of an ascending array */
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))] ?? 0
+
+export function summarizeEtrAccuracy(provider: string, samples: EtrSample[]): EtrAccuracyStats {
+  const errors = samples.map((s) => etrErrorSec(s) / 60).sort((a, b) => a - b)
+  const count = samples.length || 1
+  const revised = samples.filter((s) => s.revisions > 0).length
+  const totalRevisions = samples.reduce((sum, s) => sum + s.revisions, 0)
+  const onTime = samples.filter(isOnTime).length
+  return {
+    provider,
+    samples: samples.length,
+    meanErrorMin: Math.round(errors.reduce((sum, e) => sum + e, 0) / count),
+    p50ErrorMin: Math.round(percentile(errors, 0.5)),
+    p90ErrorMin: Math.round(percentile(errors, 0.9)),
+    revisedPct: Math.round((revised / count) * 100),
+    meanRevisions: Math.round((totalRevisions / count) * 10) / 10,
+    score: Math.round((onTime / count) * 100),
+  }
+}
+
+/** Per-provider stats, most reliable first */
+export function summarizeByProvider(samples: EtrSample[]): EtrAccuracyStats[] {
+  const byProvider = new Map<string, EtrSample[]>()
+  for (const sample of samples) {
+    const list = byProvider.get(sample.provider) ?? []
+    list.push(sample)
+    byProvider.set(sample.provider, list)
+  }
+  return [...byProvider.entries()]
+    .map(([provider, list]) => summarizeEtrAccuracy(provider, list))
+    .sort((a, b) => b.score - a.score || b.samples - a.samples)
+}
+
+/** On-time restorations per local day (by restoration time), oldest first */
+export function onTimeByDay(samples: EtrSample[]): { date: Date; onTime: number; total: number }[] {
+  const byDay = new Map<number, { onTime: number; total: number }>()
+  for (const sample of samples) {
+    const day = new Date(sample.endTs * 1000)
+    day.setHours(0, 0, 0, 0)
+    const entry = byDay.get(day.getTime()) ?? { onTime: 0, total: 0 }
+    entry.total++
+    if (isOnTime(sample)) entry.onTime++
+    byDay.set(day.getTime(), entry)
+  }
+  return [...byDay.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([ms, counts]) => ({ date: new Date(ms), ...counts }))
+}
@@ -0,0 +1,138 @@
+import type { ComplianceBucket, WorkerRun } from '@/types/analytics'
+import type { DetectedAnomaly } from '@/types/feedHealth'
+import { compositeScore } from '@/composables/useAnalyticsData'
+
+const DAY_S = 24 * 60 * 60
+
+/** Complete days before the day being judged that form the baseline */
+const BASELINE_DAYS = 14
+
+/** A drop to zero only counts when the baseline median is at least this */
+const VOLUME_DROP_MIN_BASELINE = 3
+
+/** Latest day needs this many outages before its completeness is judged */
+const COLLAPSE_MIN_OUTAGES = 5
+
+/** Completeness points lost against the baseline that count as a collapse */
+const COLLAPSE_DROP_POINTS = 30
+
+/** A feed whose newest fetch is older than this is stale */
+export const STALE_FETCH_S = 6 * 60 * 60
+
+/** One complete day; `bucket` is null where the API returned none (no outages) */
+interface Day {
+  ts: number
+  bucket: ComplianceBucket | null
+}
+
+const dayTotal = (day: Day) => day.bucket?.total ?? 0
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2
+}
+
+const formatDay = (ts: number) =>
+  new Date(ts * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+/**
+ * Every day from the first bucket through the last one that has ended by
+ * `nowSec`. Today's partial bucket is left out, and days the API omitted are
+ * filled in, so a feed that went silent shows up as zero-outage days.
+ */
+const completeDays = (sorted: ComplianceBucket[], nowSec: number): Day[] => {
+  const first = sorted[0]!.bucket_start_ts
+  // Buckets may be aligned to a local midnight rather than UTC
+  const offset = ((first % DAY_S) + DAY_S) % DAY_S
+  const lastStart = Math.floor((nowSec - offset) / DAY_S) * DAY_S + offset - DAY_S
+  const byStart = new Map(sorted.map((b) => [b.bucket_start_ts, b]))
+  const days: Day[] = []
+  for (let ts = first; ts <= lastStart; ts += DAY_S) {
+    days.push({ ts, bucket: byStart.get(ts) ?? null })
+  }
+  return days
+}
+
+/**
+ * Check one provider's daily compliance series: outages dropping to zero, a
+ * collapse in completeness on the last complete day, or a feed that stopped
+ * being fetched.
+ */
+export function detectProviderAnomalies(
+  provider: string,
+  buckets: ComplianceBucket[],
+  nowSec: number,
+): DetectedAnomaly[] {
+  if (!buckets.length) return []
+  const sorted = [...buckets].sort((a, b) => a.bucket_start_ts - b.bucket_start_ts)
+  const days = completeDays(sorted, nowSec)
+  const anomalies: DetectedAnomaly[] = []
+
+  // Trailing run of zero-outage days, judged against the days before it began
+  let runStart = days.length
+  while (runStart > 0 && dayTotal(days[runStart - 1]!) === 0) runStart--
+  if (runStart < days.length) {
+    const baseline = days.slice(Math.max(0, runStart - BASELINE_DAYS), runStart)
+    const baselineMedian = median(baseline.map(dayTotal))
+    if (baselineMedian >= VOLUME_DROP_MIN_BASELINE) {
+      const since = days[runStart]!.ts
+      const zeroDays = days.length - runStart
+      const typical = `typically ${Math.round(baselineMedian)} a day`
+      anomalies.push({
+        // Keyed by the run's first day so a feed that stays silent is one anomaly
+        id: `volumeDrop:${provider}:${since}`,
+        kind: 'volumeDrop',
+        provider,
+        message:
+          zeroDays === 1
+            ? `No outages on ${formatDay(since)}; ${typical}.`
+            : `No outages for ${zeroDays} days since ${formatDay(since)}; ${typical}.`,
+      })
+    }
+  }
+
+  const latest = days[days.length - 1]?.bucket
+  const baseline = days
+    .slice(-1 - BASELINE_DAYS, -1)
+    .flatMap((day) => (day.bucket ? [day.bucket] : []))
+  const baselineTotal = baseline.reduce((sum, b) => sum + b.total, 0)
+  if (latest && latest.total >= COLLAPSE_MIN_OUTAGES && baselineTotal > 0) {
+    const baselineScore =
+      baseline.reduce((sum, b) => sum + compositeScore(b) * b.total, 0) / baselineTotal
+    const latestScore = compositeScore(latest)
+    if (baselineScore - latestScore >= COLLAPSE_DROP_POINTS) {
+      anomalies.push({
+        id: `completenessCollapse:${provider}:${latest.bucket_start_ts}`,
+        kind: 'completenessCollapse',
+        provider,
+        message: `Completeness fell to ${latestScore}% on ${formatDay(latest.bucket_start_ts)}, from ${Math.round(baselineScore)}%.`,
+      })
+    }
+  }
+
+  const lastFetch = Math.max(...sorted.map((b) => b.fetch_ts_max))
+  if (lastFetch > 0 && nowSec - lastFetch > STALE_FETCH_S) {
+    const hours = Math.floor((nowSec - lastFetch) / 3600)
+    anomalies.push({
+      id: `staleFetch:${provider}:${lastFetch}`,
+      kind: 'staleFetch',
+      provider,
+      message: `Last fetched ${hours} hours ago.`,
+    })
+  }
+
+  return anomalies
+}
+
+/** The latest analytics worker run reported errors */
+export function detectWorkerAnomaly(run: WorkerRun | null): DetectedAnomaly | null {
+  if (!run || run.errors === 0) return null
+  return {
+    id: `workerErrors:${run.id}`,
+    kind: 'workerErrors',
+    provider: null,
+    message: `Worker run #${run.id} had ${run.errors} ${run.errors === 1 ? 'error' : 'errors'}${run.last_error ? `: ${run.last_error}` : '.'}`,
+  }
+}
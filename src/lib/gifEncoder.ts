@@ -0,0 +1,149 @@
+/**
+ * Minimal animated GIF89a encoder.
+ *
+ * Frames are quantized to a fixed 6×7×6 RGB palette (252 colors) and LZW
+ * compressed as they are added, so only the encoded bytes are kept in memory.
+ * Good enough for flat map graphics; photographic content will band.
+ */
+
+const R_LEVELS = 6
+const G_LEVELS = 7
+const B_LEVELS = 6
+const MIN_CODE_SIZE = 8
+const MAX_CODE = 4096
+
+const buildPalette = (): Uint8Array => {
+  const palette = new Uint8Array(256 * 3)
+  let i = 0
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        palette[i++] = Math.round((r * 255) / (R_LEVELS - 1))
+        palette[i++] = Math.round((g * 255) / (G_LEVELS - 1))
+        palette[i++] = Math.round((b * 255) / (B_LEVELS - 1))
+      }
+    }
+  }
+  return palette
+}
+
+const quantize = (rgba: Uint8ClampedArray): Uint8Array => {
+  const indices = new Uint8Array(rgba.length / 4)
+  for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+    const r = Math.round((rgba[i]! * (R_LEVELS - 1)) / 255)
+    const g = Math.round((rgba[i + 1]! * (G_LEVELS - 1)) / 255)
+    const b = Math.round((rgba[i + 2]! * (B_LEVELS - 1)) / 255)
+    indices[p] = (r * G_LEVELS + g) * B_LEVELS + b
+  }
+  return indices
+}
+
+/** GIF-flavoured LZW, packed into 255-byte sub-blocks */
+const lzwEncode = (indices: Uint8Array): Uint8Array => {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const eoiCode = clearCode + 1
+  const out: number[] = [MIN_CODE_SIZE]
+  let block: number[] = []
+
+  let bitBuffer = 0
+  let bitCount = 0
+  let codeSize = MIN_CODE_SIZE + 1
+  let nextCode = eoiCode + 1
+  const table = new Map<number, number>()
+
+  const pushByte = (byte: number) => {
+    block.push(byte)
+    if (block.length === 255) {
+      out.push(255, ...block)
+      block = []
+    }
+  }
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      pushByte(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0] ?? 0
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]!
+    const key = (prefix << 8) | k
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    emit(prefix)
+    if (nextCode === MAX_CODE) {
+      emit(clearCode)
+      table.clear()
+      codeSize = MIN_CODE_SIZE + 1
+      nextCode = eoiCode + 1
+    } else {
+      // The decoder grows its code size one entry later than we add it
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = k
+  }
+  emit(prefix)
+  emit(eoiCode)
+  if (bitCount > 0) pushByte(bitBuffer & 0xff)
+  if (block.length) out.push(block.length, ...block)
+  out.push(0)
+  return Uint8Array.from(out)
+}
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff]
+
+export function createGifEncoder(width: number, height: number, frameDelayMs: number) {
+  const chunks: Uint8Array[] = []
+  const delayCs = Math.max(2, Math.round(frameDelayMs / 10))
+
+  chunks.push(
+    Uint8Array.from([
+      ...new TextEncoder().encode('GIF89a'),
+      ...u16(width),
+      ...u16(height),
+      0xf7, // global color table, 8 bits/channel, 256 entries
+      0,
+      0,
+    ]),
+    buildPalette(),
+    // NETSCAPE2.0 application extension: loop forever
+    Uint8Array.from([
+      0x21,
+      0xff,
+      0x0b,
+      ...new TextEncoder().encode('NETSCAPE2.0'),
+      0x03,
+      0x01,
+      0,
+      0,
+      0,
+    ]),
+  )
+
+  const addFrame = (image: ImageData) => {
+    chunks.push(
+      // Graphic control extension (frame delay)
+      Uint8Array.from([0x21, 0xf9, 0x04, 0, ...u16(delayCs), 0, 0]),
+      // Image descriptor: full frame, no local color table
+      Uint8Array.from([0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0]),
+      lzwEncode(quantize(image.data)),
+    )
+  }
+
+  const finish = (): Blob => {
+    chunks.push(Uint8Array.from([0x3b]))
+    return new Blob(chunks as BlobPart[], { type: 'image/gif' })
+  }
+
+  return { addFrame, finish }
+}
@@ -0,0 +1,23 @@
+import type { ModerationItem, ModerationTarget } from '@/types/admin'
+
+/** Flag weight halves for every this many hours since the last flag */
+const FLAG_HALF_LIFE_H = 12
+
+/**
+ * Queue priority: flag count decayed by the age of the most recent flag, so
+ * a burst of fresh storm spam outranks an old item with a few more flags.
+ */
+export function moderationPriority(item: ModerationItem, nowSec: number): number {
+  const ageHours = Math.max(0, nowSec - item.lastFlaggedAt) / 3600
+  return item.flags * Math.pow(0.5, ageHours / FLAG_HALF_LIFE_H)
+}
+
+/** Highest priority first; ties go to the most recently flagged */
+export function rankModerationQueue(items: ModerationItem[], nowSec: number): ModerationItem[] {
+  return items
+    .map((item) => ({ item, priority: moderationPriority(item, nowSec) }))
+    .sort((a, b) => b.priority - a.priority || b.item.lastFlaggedAt - a.item.lastFlaggedAt)
+    .map(({ item }) => item)
+}
+
+export const moderationKey = (target: ModerationTarget) => `${target.targetType}:${target.targetId}`
@@ -0,0 +1,25 @@
+import type { FetchOutageParams } from '@/types/outage'
+
+const baseApiUrl = import.meta.env.VITE_BASE_API_URL || ''
+
+/**
+ * One-off `GET /outages` request. Kept out of the outage store so pages that
+ * only read history (analytics, feed health) don't create the map store and
+ * start its timeline loading.
+ */
+export const fetchOutages = async (
+  params: FetchOutageParams,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  const fetchUrl = new URL(`${baseApiUrl}/outages`)
+  if (params.since) {
+    fetchUrl.searchParams.append('start', params.since.toString())
+  }
+  if (params.until) {
+    fetchUrl.searchParams.append('end', params.until.toString())
+  }
+  if (params.provider) {
+    fetchUrl.searchParams.append('provider', params.provider)
+  }
+  return fetch(fetchUrl.toString(), { signal })
+}
@@ -0,0 +1,181 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson'
+import type { Outage } from '@/types/outage'
+import { wktToGeoJSON, type BoundsLiteral, type GeoPolygon } from '@/lib/utils'
+
+export type OutageExportFormat = 'geojson' | 'csv' | 'kml'
+
+/** Which outages an export covers */
+export type OutageExportScope = 'block' | 'viewport' | 'range'
+
+export const OUTAGE_EXPORT_FORMATS: Record<
+  OutageExportFormat,
+  { label: string; extension: string; mime: string }
+> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mime: 'application/geo+json' },
+  csv: { label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  kml: { label: 'KML', extension: 'kml', mime: 'application/vnd.google-earth.kml+xml' },
+}
+
+/** Outage attributes written to every feature/row, in column order */
+const ATTRIBUTE_KEYS = [
+  'id',
+  'provider',
+  'latitude',
+  'longitude',
+  'customerCount',
+  'cause',
+  'outageType',
+  'isPlanned',
+  'outageStartLocal',
+  'outageStartTz',
+  'outageStartUtc',
+  'etrLocal',
+  'etrTz',
+  'etrUtc',
+  'startTs',
+  'endTs',
+  'ts',
+] as const satisfies readonly (keyof Outage)[]
+
+type OutageAttributes = Record<(typeof ATTRIBUTE_KEYS)[number], string | number | boolean | null>
+
+const outageAttributes = (outage: Outage): OutageAttributes => {
+  const attrs = {} as OutageAttributes
+  for (const key of ATTRIBUTE_KEYS) attrs[key] = outage[key] ?? null
+  return attrs
+}
+
+/** Boundary polygon when the outage has one, otherwise its point */
+const outageGeometry = (outage: Outage): Geometry => {
+  const polygon = outage.polygon ? wktToGeoJSON(outage.polygon) : null
+  return polygon ?? { type: 'Point', coordinates: [outage.longitude, outage.latitude] }
+}
+
+export const isOutageInBounds = (outage: Outage, bounds: BoundsLiteral): boolean => {
+  const [[south, west], [north, east]] = bounds
+  return (
+    outage.latitude >= south &&
+    outage.latitude <= north &&
+    outage.longitude >= west &&
+    outage.longitude <= east
+  )
+}
+
+// ─── GeoJSON ────────────────────────────────────────────────
+
+export const outagesToGeoJSON = (outages: Outage[]): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: outages.map(
+    (outage): Feature => ({
+      type: 'Feature',
+      id: outage.id,
+      geometry: outageGeometry(outage),
+      properties: { ...outageAttributes(outage), polygon: outage.polygon },
+    }),
+  ),
+})
+
+// ─── CSV ────────────────────────────────────────────────────
+
+/** Text a spreadsheet would run as a formula; such cells get a leading `'` */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export const csvCell = (value: string | number | boolean | null): string => {
+  if (value === null) return ''
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One row per outage; the boundary is kept as WKT so QGIS can read it as geometry */
+export const outagesToCSV = (outages: Outage[]): string => {
+  const header = [...ATTRIBUTE_KEYS, 'polygon'].join(',')
+  const rows = outages.map((outage) =>
+    [...Object.values(outageAttributes(outage)), outage.polygon ?? null].map(csvCell).join(','),
+  )
+  return [header, ...rows].join('\r\n') + '\r\n'
+}
+
+// ─── KML ────────────────────────────────────────────────────
+
+const xmlEscape = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const kmlRing = (ring: Position[]): string =>
+  `<LinearRing><coordinates>${ring.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates></LinearRing>`
+
+const kmlPolygon = (rings: Position[][]): string => {
+  const [outer, ...holes] = rings
+  if (!outer) return ''
+  return (
+    '<Polygon>' +
+    `<outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>` +
+    holes.map((hole) => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`).join('') +
+    '</Polygon>'
+  )
+}
+
+const kmlGeometry = (outage: Outage): string => {
+  const polygon: GeoPolygon | null = outage.polygon ? wktToGeoJSON(outage.polygon) : null
+  if (!polygon) {
+    return `<Point><coordinates>${outage.longitude},${outage.latitude}</coordinates></Point>`
+  }
+  if (polygon.type === 'Polygon') return kmlPolygon(polygon.coordinates)
+  return `<MultiGeometry>${polygon.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`
+}
+
+export const outagesToKML = (outages: Outage[], name = 'Outages'): string => {
+  const placemarks = outages.map((outage) => {
+    const data = Object.entries(outageAttributes(outage))
+      .filter(([, value]) => value !== null)
+      .map(
+        ([key, value]) => `<Data name="${key}"><value>${xmlEscape(String(value))}</value></Data>`,
+      )
+      .join('')
+    return (
+      '    <Placemark>' +
+      `<name>${xmlEscape(`${outage.provider} #${outage.id}`)}</name>` +
+      `<ExtendedData>${data}</ExtendedData>` +
+      kmlGeometry(outage) +
+      '</Placemark>'
+    )
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xmlEscape(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n')
+}
+
+// ─── Download ───────────────────────────────────────────────
+
+export const serializeOutages = (
+  outages: Outage[],
+  format: OutageExportFormat,
+  name?: string,
+): string => {
+  switch (format) {
+    case 'geojson':
+      return JSON.stringify(outagesToGeoJSON(outages))
+    case 'csv':
+      return outagesToCSV(outages)
+    case 'kml':
+      return outagesToKML(outages, name)
+  }
+}
+
+/** Save text or binary content as a file via a temporary object URL */
+export const downloadFile = (content: string | Blob, filename: string, mime: string): void => {
+  const blob =
+    typeof content === 'string' ? new Blob([content], { type: `${mime};charset=utf-8` }) : content
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
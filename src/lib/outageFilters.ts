@@ -0,0 +1,60 @@
+import type { Outage } from '@/types/outage'
+import type { OutageFilters } from '@/types/outageFilter'
+
+export const createEmptyFilters = (): OutageFilters => ({
+  providers: [],
+  outageTypes: [],
+  causes: [],
+  planned: 'all',
+  minCustomers: null,
+  minDurationMinutes: null,
+  hasPolygon: false,
+  hasEtr: false,
+})
+
+/** Number of filters that narrow the results (for badges) */
+export const countActiveFilters = (filters: OutageFilters): number =>
+  [
+    filters.providers.length > 0,
+    filters.outageTypes.length > 0,
+    filters.causes.length > 0,
+    filters.planned !== 'all',
+    !!filters.minCustomers,
+    !!filters.minDurationMinutes,
+    filters.hasPolygon,
+    filters.hasEtr,
+  ].filter(Boolean).length
+
+/**
+ * Whether an outage passes the filters as of `blockTs` (epoch seconds);
+ * duration is measured up to the outage end or the block, whichever is first.
+ */
+export const matchesOutageFilters = (
+  outage: Outage,
+  filters: OutageFilters,
+  blockTs: number,
+): boolean => {
+  if (filters.providers.length && !filters.providers.includes(outage.provider)) return false
+  if (filters.outageTypes.length && !filters.outageTypes.includes(outage.outageType ?? '')) {
+    return false
+  }
+  if (filters.causes.length && !filters.causes.includes(outage.cause ?? '')) return false
+  if (filters.planned === 'planned' && !outage.isPlanned) return false
+  if (filters.planned === 'unplanned' && outage.isPlanned) return false
+  if (filters.minCustomers && (outage.customerCount ?? 0) < filters.minCustomers) return false
+  if (filters.minDurationMinutes) {
+    const end = Math.min(outage.endTs ?? blockTs, blockTs)
+    if (end - outage.startTs < filters.minDurationMinutes * 60) return false
+  }
+  if (filters.hasPolygon && !outage.polygon) return false
+  if (filters.hasEtr && !(outage.etrUtc || outage.etrLocal)) return false
+  return true
+}
+
+/** Deep copy (safe on reactive proxies, unlike structuredClone) */
+export const cloneFilters = (filters: OutageFilters): OutageFilters => ({
+  ...filters,
+  providers: [...filters.providers],
+  outageTypes: [...filters.outageTypes],
+  causes: [...filters.causes],
+})
@@ -0,0 +1,64 @@
+import type { Outage, OutageResponse, OutageSnapshot } from '@/types/outage'
+import type { UserOutageReport } from '@/types/userOutage'
+import { matchReportToOutage } from '@/lib/corroboration'
+
+const etrOf = (outage: Outage) => outage.etrUtc || outage.etrLocal || null
+
+/** The record for one outage in an `/outages` response, if it appears */
+export const recordIn = (outageId: number, response: OutageResponse): Outage | undefined =>
+  response.outages.find((outage) => outage.id === outageId)
+
+/**
+ * Collapse an outage's records into snapshots, starting a new one whenever its
+ * customer count, ETR or boundary changes. `/outages` returns one record per
+ * outage id (its latest in the requested range), so the records come from one
+ * request per slice of the outage's life, each stamped with its own `ts`.
+ */
+export function buildOutageHistory(records: Outage[]): OutageSnapshot[] {
+  const snapshots: OutageSnapshot[] = []
+  const sorted = [...records].sort((a, b) => a.ts - b.ts)
+
+  for (const record of sorted) {
+    const customerCount = record.customerCount ?? null
+    const etr = etrOf(record)
+    const polygon = record.polygon
+    const last = snapshots[snapshots.length - 1]
+    if (
+      last &&
+      last.customerCount === customerCount &&
+      last.etr === etr &&
+      last.polygon === polygon
+    ) {
+      last.lastTs = record.ts
+    } else {
+      snapshots.push({ firstTs: record.ts, lastTs: record.ts, customerCount, etr, polygon })
+    }
+  }
+  return snapshots
+}
+
+/** Single snapshot for an outage whose blocks could not be loaded */
+export const snapshotOf = (outage: Outage): OutageSnapshot => ({
+  firstTs: outage.startTs,
+  lastTs: outage.endTs ?? outage.ts,
+  customerCount: outage.customerCount ?? null,
+  etr: etrOf(outage),
+  polygon: outage.polygon,
+})
+
+/**
+ * Whether a user report plausibly describes the outage: made during its life
+ * (with an hour of slack) and inside any of its boundaries or near its point.
+ */
+export const reportMatchesOutage = (
+  report: UserOutageReport,
+  outage: Outage,
+  snapshots: OutageSnapshot[],
+  nowSec: number,
+): boolean =>
+  matchReportToOutage(
+    report,
+    outage,
+    snapshots.map((s) => s.polygon),
+    nowSec,
+  ) !== null
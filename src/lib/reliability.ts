@@ -0,0 +1,174 @@
+import type { OutageResponse } from '@/types/outage'
+import type {
+  Granularity,
+  Interruption,
+  ReliabilityIndices,
+  ReliabilityPeriod,
+} from '@/types/analytics'
+
+/** Interruptions this short are momentary and excluded, as in IEEE 1366 */
+export const SUSTAINED_INTERRUPTION_S = 5 * 60
+
+/** IEEE 1366 "2.5 beta" multiplier for the major event day threshold */
+const MAJOR_EVENT_BETA_MULTIPLIER = 2.5
+
+type CustomerObservation = { ts: number; customers: number }
+
+/** Everything seen for one outage id across the fetched chunks */
+export type InterruptionTrack = {
+  provider: string
+  startTs: number
+  endTs: number | null
+  observations: CustomerObservation[]
+}
+
+/**
+ * Fold the records of one `/outages` response into per-outage tracks of
+ * customer counts. Chunks may arrive in any order.
+ */
+export function collectInterruptionTracks(
+  response: OutageResponse,
+  tracks: Map<number, InterruptionTrack>,
+) {
+  for (const outage of response.outages) {
+    let track = tracks.get(outage.id)
+    if (!track) {
+      track = {
+        provider: outage.provider,
+        startTs: outage.startTs,
+        endTs: outage.endTs,
+        observations: [],
+      }
+      tracks.set(outage.id, track)
+    }
+    if (outage.endTs !== null) track.endTs = outage.endTs
+    if (outage.customerCount != null && outage.customerCount > 0) {
+      track.observations.push({ ts: outage.ts, customers: outage.customerCount })
+    }
+  }
+}
+
+/**
+ * Restored, sustained outages with a customer count. Customer-minutes step
+ * through each reported count until the next report, so partial restorations
+ * are credited as they happen.
+ */
+export function toInterruptions(tracks: Map<number, InterruptionTrack>): Interruption[] {
+  const interruptions: Interruption[] = []
+  for (const [outageId, track] of tracks) {
+    const endTs = track.endTs
+    if (endTs === null || endTs - track.startTs < SUSTAINED_INTERRUPTION_S) continue
+    const observations = track.observations.filter((o) => o.ts <= endTs).sort((a, b) => a.ts - b.ts)
+    if (!observations.length) continue
+
+    let customers = 0
+    let customerSeconds = 0
+    for (let i = 0; i < observations.length; i++) {
+      const current = observations[i]!
+      const from = i === 0 ? track.startTs : current.ts
+      const to = observations[i + 1]?.ts ?? endTs
+      customers = Math.max(customers, current.customers)
+      customerSeconds += current.customers * Math.max(0, to - from)
+    }
+    interruptions.push({
+      outageId,
+      provider: track.provider,
+      startTs: track.startTs,
+      endTs,
+      customers,
+      customerMinutes: customerSeconds / 60,
+    })
+  }
+  return interruptions
+}
+
+/** Start (epoch seconds) of the local day, Sunday-based week or month containing `ts` */
+export function periodStart(ts: number, granularity: Granularity): number {
+  const date = new Date(ts * 1000)
+  date.setHours(0, 0, 0, 0)
+  if (granularity === 'week') date.setDate(date.getDate() - date.getDay())
+  else if (granularity === 'month') date.setDate(1)
+  return Math.floor(date.getTime() / 1000)
+}
+
+export function computeIndices(
+  interruptions: Interruption[],
+  customersServed: number,
+): ReliabilityIndices {
+  let customersInterrupted = 0
+  let customerMinutes = 0
+  for (const interruption of interruptions) {
+    customersInterrupted += interruption.customers
+    customerMinutes += interruption.customerMinutes
+  }
+  const served = customersServed > 0 ? customersServed : NaN
+  return {
+    saidi: customerMinutes / served,
+    saifi: customersInterrupted / served,
+    caidi: customersInterrupted ? customerMinutes / customersInterrupted : 0,
+    interruptions: interruptions.length,
+    customersInterrupted,
+    customerMinutes,
+  }
+}
+
+/**
+ * Days whose SAIDI exceeds the IEEE 1366 threshold `exp(α + 2.5β)`, where α and
+ * β are the mean and standard deviation of ln(daily SAIDI) over days with any
+ * interruption. Interruptions are assigned to the day they began. The standard
+ * calls for five years of history; over shorter windows the threshold is only
+ * indicative.
+ */
+export function majorEventDays(
+  interruptions: Interruption[],
+  customersServed: number,
+): Set<number> {
+  const minutesByDay = new Map<number, number>()
+  for (const interruption of interruptions) {
+    const day = periodStart(interruption.startTs, 'day')
+    minutesByDay.set(day, (minutesByDay.get(day) ?? 0) + interruption.customerMinutes)
+  }
+  const logs = [...minutesByDay.values()]
+    .filter((minutes) => minutes > 0)
+    .map((minutes) => Math.log(minutes / customersServed))
+  // Need a spread of days before a threshold means anything
+  if (logs.length < 2 || !(customersServed > 0)) return new Set()
+
+  const alpha = logs.reduce((sum, v) => sum + v, 0) / logs.length
+  const beta = Math.sqrt(logs.reduce((sum, v) => sum + (v - alpha) ** 2, 0) / (logs.length - 1))
+  const threshold = Math.exp(alpha + MAJOR_EVENT_BETA_MULTIPLIER * beta)
+
+  const days = new Set<number>()
+  for (const [day, minutes] of minutesByDay) {
+    if (minutes / customersServed > threshold) days.add(day)
+  }
+  return days
+}
+
+/** Drop interruptions that began on a major event day */
+export const excludeMajorEventDays = (
+  interruptions: Interruption[],
+  days: Set<number>,
+): Interruption[] =>
+  days.size ? interruptions.filter((i) => !days.has(periodStart(i.startTs, 'day'))) : interruptions
+
+/** Indices per period, oldest first; interruptions count toward the period they began in */
+export function indicesByPeriod(
+  interruptions: Interruption[],
+  customersServed: number,
+  granularity: Granularity,
+): ReliabilityPeriod[] {
+  const byPeriod = new Map<number, Interruption[]>()
+  for (const interruption of interruptions) {
+    const start = periodStart(interruption.startTs, granularity)
+    const list = byPeriod.get(start) ?? []
+    list.push(interruption)
+    byPeriod.set(start, list)
+  }
+  return [...byPeriod.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([periodStartTs, list]) => ({
+      periodStartTs,
+      ...computeIndices(list, customersServed),
+    }))
+}
@@ -0,0 +1,50 @@
+import type { ReplayKeyframe, StormReplay } from '@/types/replay'
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isKeyframe = (value: unknown): value is ReplayKeyframe => {
+  if (!value || typeof value !== 'object') return false
+  const kf = value as Record<string, unknown>
+  const bounds = kf.bounds as unknown[] | undefined
+  return (
+    isNumber(kf.ts) &&
+    isNumber(kf.zoom) &&
+    Array.isArray(bounds) &&
+    bounds.length === 2 &&
+    bounds.every((p) => Array.isArray(p) && p.length === 2 && p.every(isNumber))
+  )
+}
+
+/** Validate untrusted data (URL param, localStorage) as a replay */
+export const parseReplay = (value: unknown): StormReplay | null => {
+  if (!value || typeof value !== 'object') return null
+  const data = value as Record<string, unknown>
+  if (typeof data.name !== 'string' || typeof data.interval !== 'string') return null
+  if (!Array.isArray(data.keyframes) || !data.keyframes.every(isKeyframe)) return null
+  return {
+    name: data.name,
+    interval: data.interval,
+    provider: typeof data.provider === 'string' ? data.provider : null,
+    keyframes: [...data.keyframes].sort((a, b) => a.ts - b.ts),
+    createdAt: isNumber(data.createdAt) ? data.createdAt : Date.now(),
+  }
+}
+
+/** URL-safe base64 of the replay JSON, for the `replay` query param */
+export const encodeReplay = (replay: StormReplay): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(replay))
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export const decodeReplay = (encoded: string): StormReplay | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0))
+    return parseReplay(JSON.parse(new TextDecoder().decode(bytes)))
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,128 @@
+import { polygonHull } from 'd3'
+import type { Outage } from '@/types/outage'
+import type { SuspectedOutage, UserOutageReport } from '@/types/userOutage'
+import { haversineDistance } from '@/lib/utils'
+import { matchReportToOutage } from '@/lib/corroboration'
+
+/** Reports needed, within the radius and window of each other, to form a burst */
+export const SUSPECTED_MIN_REPORTS = 3
+
+/** Neighbouring reports are at most this far apart */
+export const SUSPECTED_RADIUS_KM = 3
+
+/** ...and at most this far apart in time */
+export const SUSPECTED_WINDOW_S = 30 * 60
+
+/** A burst stays on the map this long after its latest report */
+const SUSPECTED_ACTIVE_S = 2 * 3600
+
+/** Hulls are padded by this much so tight bursts still draw as an area */
+const HULL_PADDING_KM = 0.3
+const HULL_PADDING_STEPS = 8
+
+const KM_PER_DEGREE_LAT = 111.32
+
+const reportTsOf = (report: UserOutageReport) => report.observedTs ?? report.createdAt
+
+const isNeighbour = (a: UserOutageReport, b: UserOutageReport) =>
+  Math.abs(reportTsOf(a) - reportTsOf(b)) <= SUSPECTED_WINDOW_S &&
+  haversineDistance([a.latitude, a.longitude], [b.latitude, b.longitude]) <= SUSPECTED_RADIUS_KM
+
+/** Convex hull of the reports, each padded into a small circle, as [lat, lng] */
+const paddedHull = (reports: UserOutageReport[]): [number, number][] => {
+  const points: [number, number][] = []
+  for (const r of reports) {
+    const dLat = HULL_PADDING_KM / KM_PER_DEGREE_LAT
+    const dLng = dLat / Math.max(0.01, Math.cos((r.latitude * Math.PI) / 180))
+    for (let i = 0; i < HULL_PADDING_STEPS; i++) {
+      const angle = (2 * Math.PI * i) / HULL_PADDING_STEPS
+      points.push([r.longitude + dLng * Math.cos(angle), r.latitude + dLat * Math.sin(angle)])
+    }
+  }
+  return (polygonHull(points) ?? points).map(([lng, lat]) => [lat, lng])
+}
+
+const buildSuspected = (reports: UserOutageReport[]): SuspectedOutage => {
+  const times = reports.map(reportTsOf).sort((a, b) => a - b)
+  const center: [number, number] = [
+    reports.reduce((sum, r) => sum + r.latitude, 0) / reports.length,
+    reports.reduce((sum, r) => sum + r.longitude, 0) / reports.length,
+  ]
+
+  const providerCounts = new Map<string, number>()
+  for (const r of reports) {
+    if (r.provider) providerCounts.set(r.provider, (providerCounts.get(r.provider) ?? 0) + 1)
+  }
+  const [provider, providerVotes] = [...providerCounts].sort((a, b) => b[1] - a[1])[0] ?? [null, 0]
+  const named = [...providerCounts.values()].reduce((sum, n) => sum + n, 0)
+
+  // More reports, tighter together, agreeing on the utility → more confidence
+  const countScore = 1 - Math.exp(-(reports.length - 1) / 3)
+  const meanSpreadKm =
+    reports.reduce((sum, r) => sum + haversineDistance(center, [r.latitude, r.longitude]), 0) /
+    reports.length
+  const compactness = Math.max(0, 1 - meanSpreadKm / SUSPECTED_RADIUS_KM)
+  const agreement = named ? providerVotes / named : 1
+
+  const earliest = reports.reduce((a, b) => (reportTsOf(b) < reportTsOf(a) ? b : a))
+  return {
+    id: `suspected:${earliest.id}`,
+    reportIds: reports.map((r) => r.id),
+    provider,
+    firstTs: times[0]!,
+    lastTs: times[times.length - 1]!,
+    detectedTs: times[Math.min(SUSPECTED_MIN_REPORTS, times.length) - 1]!,
+    center,
+    hull: paddedHull(reports),
+    confidence: 0.6 * countScore + 0.25 * compactness + 0.15 * agreement,
+  }
+}
+
+/**
+ * Find dense spatio-temporal bursts of user reports (DBSCAN): a report with at
+ * least `SUSPECTED_MIN_REPORTS - 1` neighbours within `SUSPECTED_RADIUS_KM`
+ * and `SUSPECTED_WINDOW_S` seeds a burst, which grows through its neighbours.
+ */
+export function detectSuspectedOutages(reports: UserOutageReport[]): SuspectedOutage[] {
+  const neighbours = reports.map((report, i) =>
+    reports.flatMap((other, j) => (i !== j && isNeighbour(report, other) ? [j] : [])),
+  )
+  const isCore = (i: number) => neighbours[i]!.length + 1 >= SUSPECTED_MIN_REPORTS
+  const assigned = reports.map(() => false)
+  const bursts: SuspectedOutage[] = []
+
+  for (let i = 0; i < reports.length; i++) {
+    if (assigned[i] || !isCore(i)) continue
+    const members: number[] = []
+    const queue = [i]
+    assigned[i] = true
+    while (queue.length) {
+      const current = queue.pop()!
+      members.push(current)
+      if (!isCore(current)) continue
+      for (const next of neighbours[current]!) {
+        if (assigned[next]) continue
+        assigned[next] = true
+        queue.push(next)
+      }
+    }
+    bursts.push(buildSuspected(members.map((m) => reports[m]!)))
+  }
+  return bursts.sort((a, b) => b.confidence - a.confidence)
+}
+
+/** Whether the burst is on the map at `ts`: from its Nth report until it goes quiet */
+export const isSuspectedActiveAt = (suspected: SuspectedOutage, ts: number) =>
+  ts >= suspected.detectedTs && ts <= suspected.lastTs + SUSPECTED_ACTIVE_S
+
+/** Ids of the burst's reports that the outage explains */
+export const reportsExplainedBy = (
+  suspected: SuspectedOutage,
+  reportsById: Map<number, UserOutageReport>,
+  outage: Outage,
+  nowSec: number,
+): number[] =>
+  suspected.reportIds.filter((id) => {
+    const report = reportsById.get(id)
+    return !!report && !!matchReportToOutage(report, outage, [outage.polygon], nowSec)
+  })
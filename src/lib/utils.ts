@@ -214,7 +214,7 @@ const summarizeCluster = (cluster: Outage[]): GroupedOutage => {
  * @param b - The second point specified as a tuple `[latitude, longitude]` in decimal degrees.
  * @returns The distance between the two points in kilometers.
  */
-const haversineDistance = (a: Point, b: Point): number => {
+export const haversineDistance = (a: Point, b: Point): number => {
   const lat1 = (a[0] * Math.PI) / 180
   const lat2 = (b[0] * Math.PI) / 180
   const dLat = lat2 - lat1
@@ -264,6 +264,22 @@ export const formatDate = (input: number | string | Date | null): string => {
   }).format(value)
 }
 
+/**
+ * Formats a length of time as days, hours and minutes, e.g. "1d 4h" or "35m".
+ *
+ * @param seconds - The duration in seconds.
+ * @returns The two most significant units, or "0m" for under a minute.
+ */
+export const formatDuration = (seconds: number): string => {
+  const totalMinutes = Math.floor(seconds / 60)
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+  if (days) return hours ? `${days}d ${hours}h` : `${days}d`
+  if (hours) return minutes ? `${hours}h ${minutes}m` : `${hours}h`
+  return `${minutes}m`
+}
+
 /**
  * Merges multiple WKT polygon strings into a single MULTIPOLYGON representation.
  *
@@ -377,6 +393,33 @@ export const clearWktCache = (): void => {
   wktCache.clear()
 }
 
+/** [west, south, east, north] in degrees */
+export type GeoBBox = [number, number, number, number]
+
+// Keyed by geometry object; wktToGeoJSON hands out one object per WKT string
+const bboxCache = new WeakMap<GeoPolygon, GeoBBox>()
+
+/** Bounding box of a geometry, computed once per geometry object */
+export const geometryBBox = (geometry: GeoPolygon): GeoBBox => {
+  const cached = bboxCache.get(geometry)
+  if (cached) return cached
+  const rings = geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat()
+  const box: GeoBBox = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const ring of rings) {
+    for (const [lon, lat] of ring as Point[]) {
+      if (lon < box[0]) box[0] = lon
+      if (lat < box[1]) box[1] = lat
+      if (lon > box[2]) box[2] = lon
+      if (lat > box[3]) box[3] = lat
+    }
+  }
+  bboxCache.set(geometry, box)
+  return box
+}
+
+export const bboxContains = ([west, south, east, north]: GeoBBox, lat: number, lon: number) =>
+  lon >= west && lon <= east && lat >= south && lat <= north
+
 const stripSrid = (wkt: string): string => {
   const trimmed = wkt.trim()
   const sridIndex = trimmed.indexOf(';')
@@ -520,6 +563,30 @@ export const fallbackPointBounds = (lat: number, lon: number): BoundsLiteral =>
   ]
 }
 
+/** `[[south, west], [north, east]]` of finite numbers, e.g. bounds posted by an embed host */
+export const isBoundsLiteral = (value: unknown): value is BoundsLiteral =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every(
+    (corner) => Array.isArray(corner) && corner.length === 2 && corner.every(Number.isFinite),
+  )
+
+/** Parse a `south,west,north,east` URL param into bounds; null if malformed */
+export const parseBoundsParam = (value: string | null): BoundsLiteral | null => {
+  if (!value) return null
+  const parts = value.split(',').map(Number)
+  if (parts.length !== 4 || !parts.every(Number.isFinite)) return null
+  const [s, w, n, e] = parts as [number, number, number, number]
+  return [
+    [s, w],
+    [n, e],
+  ]
+}
+
+/** Bounds as a `south,west,north,east` URL param (4 decimals, about 10 m) */
+export const boundsToParam = ([[s, w], [n, e]]: BoundsLiteral): string =>
+  [s, w, n, e].map((v) => v.toFixed(4)).join(',')
+
 export function providerToSlug(name: string): string {
   return name
     .toLowerCase()
@@ -0,0 +1,306 @@
+import L from 'leaflet'
+import type { Outage } from '@/types/outage'
+import { TILE_LAYERS } from '@/composables/map/useMinimap'
+import {
+  createCircleMarkerOptions,
+  createOutagePolygonStyle,
+  POLYGON_VISIBLE_ZOOM,
+} from '@/composables/map/useMapLayers'
+import { createGifEncoder } from '@/lib/gifEncoder'
+import { clusterOutages, formatDate, parsePolygonWKT, type BoundsLiteral } from '@/lib/utils'
+
+export type VideoExportFormat = 'webm' | 'gif'
+
+export interface VideoExportOptions {
+  format: VideoExportFormat
+  fps: number
+  width: number
+  height: number
+  bounds: BoundsLiteral
+  dark: boolean
+  /** Shown above the timestamp, e.g. the provider name */
+  title?: string | null
+}
+
+/** One timeline block to render */
+export interface VideoFrame {
+  ts: number
+  outages: Outage[]
+}
+
+const TILE_SIZE = 256
+const MAX_TILE_ZOOM = 18
+const TILE_SUBDOMAINS = ['a', 'b', 'c', 'd']
+
+export const isWebmSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+  MediaRecorder.isTypeSupported('video/webm')
+
+// ─── Projection ─────────────────────────────────────────────
+
+/** Fit bounds into the output size the way the map's fitBounds does; returns the zoom and pixel origin */
+const fitView = (bounds: BoundsLiteral, width: number, height: number) => {
+  const crs = L.CRS.EPSG3857
+  const [[south, west], [north, east]] = bounds
+  const nw = crs.latLngToPoint(L.latLng(north, west), 0)
+  const se = crs.latLngToPoint(L.latLng(south, east), 0)
+  const zoom = Math.min(
+    MAX_TILE_ZOOM,
+    Math.log2(Math.min(width / Math.max(se.x - nw.x, 1e-9), height / Math.max(se.y - nw.y, 1e-9))),
+  )
+  const origin = nw
+    .add(se)
+    .divideBy(2)
+    .multiplyBy(crs.scale(zoom) / crs.scale(0))
+    .subtract(L.point(width / 2, height / 2))
+  return { zoom, originX: origin.x, originY: origin.y }
+}
+
+// ─── Basemap ────────────────────────────────────────────────
+
+const loadImage = (url: string): Promise<HTMLImageElement | null> =>
+  new Promise((resolve) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => resolve(null)
+    img.src = url
+  })
+
+/** Draw the CARTO basemap for the view once; frames copy it as their background */
+const renderBasemap = async (
+  width: number,
+  height: number,
+  view: ReturnType<typeof fitView>,
+  dark: boolean,
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = dark ? '#0e1116' : '#f2efe9'
+  ctx.fillRect(0, 0, width, height)
+
+  const tileZoom = Math.max(0, Math.min(MAX_TILE_ZOOM, Math.floor(view.zoom)))
+  const tileScale = 2 ** (view.zoom - tileZoom)
+  const size = TILE_SIZE * tileScale
+  const tileCount = 2 ** tileZoom
+  const template: string = TILE_LAYERS[dark ? 'dark' : 'light'].url
+  const retina = window.devicePixelRatio > 1 ? '@2x' : ''
+
+  const jobs: Promise<void>[] = []
+  const minX = Math.floor(view.originX / size)
+  const maxX = Math.floor((view.originX + width) / size)
+  const minY = Math.max(0, Math.floor(view.originY / size))
+  const maxY = Math.min(tileCount - 1, Math.floor((view.originY + height) / size))
+  for (let tx = minX; tx <= maxX; tx++) {
+    for (let ty = minY; ty <= maxY; ty++) {
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount
+      const url = template
+        .replace('{s}', TILE_SUBDOMAINS[(tx + ty) % TILE_SUBDOMAINS.length]!)
+        .replace('{z}', String(tileZoom))
+        .replace('{x}', String(wrappedX))
+        .replace('{y}', String(ty))
+        .replace('{r}', retina)
+      jobs.push(
+        loadImage(url).then((img) => {
+          if (img)
+            ctx.drawImage(img, tx * size - view.originX, ty * size - view.originY, size, size)
+        }),
+      )
+    }
+  }
+  await Promise.all(jobs)
+  return canvas
+}
+
+// ─── Frames ─────────────────────────────────────────────────
+
+/**
+ * Build a renderer that draws one timeline block per call onto `canvas`:
+ * basemap, outage polygons, outage markers and a timestamp overlay. Outages are
+ * grouped and styled as the map shows them at the clip's zoom (circle markers,
+ * merged polygons from POLYGON_VISIBLE_ZOOM).
+ */
+export async function createFrameRenderer(canvas: HTMLCanvasElement, options: VideoExportOptions) {
+  const { width, height, dark, title } = options
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format === 'gif' })!
+  const view = fitView(options.bounds, width, height)
+  const basemap = await renderBasemap(width, height, view, dark)
+  const polygonStyle = createOutagePolygonStyle()
+  const polygonCache = new Map<string, [number, number][][][]>()
+
+  const toPixel = (lat: number, lng: number): [number, number] => {
+    const { x, y } = L.CRS.EPSG3857.latLngToPoint(L.latLng(lat, lng), view.zoom)
+    return [x - view.originX, y - view.originY]
+  }
+
+  const polygonPixels = (wkt: string) => {
+    let cached = polygonCache.get(wkt)
+    if (!cached) {
+      cached = parsePolygonWKT(wkt).map((poly) =>
+        poly.map((ring) => ring.map(([lat, lng]) => toPixel(lat, lng))),
+      )
+      polygonCache.set(wkt, cached)
+    }
+    return cached
+  }
+
+  const drawOverlay = (frame: VideoFrame) => {
+    const scale = Math.max(1, width / 1280)
+    const pad = 16 * scale
+    const lines = [
+      ...(title ? [title] : []),
+      formatDate(frame.ts),
+      `${frame.outages.length.toLocaleString()} outages`,
+    ]
+    ctx.font = `600 ${18 * scale}px system-ui, sans-serif`
+    const lineHeight = 24 * scale
+    const boxWidth = Math.max(...lines.map((l) => ctx.measureText(l).width)) + pad * 2
+    const boxHeight = lines.length * lineHeight + pad
+    ctx.fillStyle = dark ? 'rgba(15, 23, 42, 0.85)' : 'rgba(255, 255, 255, 0.88)'
+    ctx.fillRect(pad, height - boxHeight - pad, boxWidth, boxHeight)
+    ctx.fillStyle = dark ? '#f8fafc' : '#0f172a'
+    ctx.textBaseline = 'top'
+    lines.forEach((line, i) => {
+      ctx.fillText(line, pad * 2, height - boxHeight - pad / 2 + i * lineHeight)
+    })
+
+    ctx.font = `${11 * scale}px system-ui, sans-serif`
+    ctx.textAlign = 'right'
+    ctx.fillStyle = dark ? 'rgba(248, 250, 252, 0.7)' : 'rgba(15, 23, 42, 0.7)'
+    ctx.fillText('© OpenStreetMap © CARTO', width - 8 * scale, height - 16 * scale)
+    ctx.textAlign = 'left'
+  }
+
+  /** Canvas equivalent of a Leaflet path: fill at fillOpacity, then stroke at opacity */
+  const paint = (style: L.PathOptions) => {
+    ctx.globalAlpha = style.fillOpacity ?? 1
+    ctx.fillStyle = style.fillColor ?? style.color ?? ''
+    ctx.fill('evenodd')
+    ctx.globalAlpha = style.opacity ?? 1
+    ctx.strokeStyle = style.color ?? ''
+    ctx.lineWidth = style.weight ?? 1
+    ctx.stroke()
+    ctx.globalAlpha = 1
+  }
+
+  const drawPolygon = (wkt: string) => {
+    ctx.beginPath()
+    for (const poly of polygonPixels(wkt)) {
+      for (const ring of poly) {
+        for (const [i, [x, y]] of ring.entries()) {
+          if (i === 0) ctx.moveTo(x, y)
+          else ctx.lineTo(x, y)
+        }
+        ctx.closePath()
+      }
+    }
+    paint(polygonStyle)
+  }
+
+  const drawMarker = (lat: number, lng: number, count: number) => {
+    const style = createCircleMarkerOptions(count)
+    const radius = style.radius ?? 6
+    const [x, y] = toPixel(lat, lng)
+    if (x < -radius || y < -radius || x > width + radius || y > height + radius) return
+    ctx.beginPath()
+    ctx.arc(x, y, radius, 0, Math.PI * 2)
+    paint(style)
+    if (count > 1) {
+      ctx.font = '700 9px system-ui, sans-serif'
+      ctx.fillStyle = '#ffffff'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(String(count), x, y)
+      ctx.textAlign = 'left'
+    }
+  }
+
+  const render = (frame: VideoFrame) => {
+    ctx.drawImage(basemap, 0, 0)
+
+    const groups = clusterOutages(frame.outages, view.zoom)
+    if (view.zoom >= POLYGON_VISIBLE_ZOOM) {
+      for (const group of groups) {
+        if (group.polygon) drawPolygon(group.polygon)
+      }
+    }
+    for (const group of groups) {
+      drawMarker(group.center[0], group.center[1], group.outages.length)
+    }
+
+    drawOverlay(frame)
+  }
+
+  return { ctx, render }
+}
+
+// ─── Encoding ───────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const checkAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError')
+}
+
+/**
+ * Render every frame and encode it client-side. WebM is recorded from the canvas
+ * in real time (one frame per 1/fps seconds); GIF frames are encoded as fast as
+ * they render.
+ */
+export async function exportPlaybackVideo(
+  frames: VideoFrame[],
+  options: VideoExportOptions,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  const { ctx, render } = await createFrameRenderer(canvas, options)
+  const frameMs = 1000 / options.fps
+
+  if (options.format === 'gif') {
+    const encoder = createGifEncoder(options.width, options.height, frameMs)
+    for (const [i, frame] of frames.entries()) {
+      checkAborted(signal)
+      render(frame)
+      encoder.addFrame(ctx.getImageData(0, 0, options.width, options.height))
+      onProgress?.(i + 1, frames.length)
+      await sleep(0) // keep the UI responsive between frames
+    }
+    return encoder.finish()
+  }
+
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9')
+    ? 'video/webm;codecs=vp9'
+    : 'video/webm'
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve()
+  })
+
+  recorder.start()
+  try {
+    for (const [i, frame] of frames.entries()) {
+      checkAborted(signal)
+      render(frame)
+      track.requestFrame()
+      onProgress?.(i + 1, frames.length)
+      await sleep(frameMs)
+    }
+  } finally {
+    recorder.stop()
+    track.stop()
+  }
+  await stopped
+  return new Blob(chunks, { type: 'video/webm' })
+}
@@ -0,0 +1,96 @@
+import type { Position } from 'geojson'
+import type { Outage } from '@/types/outage'
+import type { WatchZoneArea } from '@/types/watchZone'
+import {
+  bboxContains,
+  geometryBBox,
+  haversineDistance,
+  wktToGeoJSON,
+  type GeoBBox,
+  type GeoPolygon,
+} from '@/lib/utils'
+
+/** Rings of a Polygon/MultiPolygon as a list of polygons (outer ring first) */
+const polygonsOf = (geometry: GeoPolygon): Position[][][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+
+/** Ray-casting test on a single ring of [lon, lat] positions */
+const pointInRing = (lon: number, lat: number, ring: Position[]): boolean => {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as [number, number]
+    const [xj, yj] = ring[j] as [number, number]
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export const pointInGeometry = (lat: number, lon: number, geometry: GeoPolygon): boolean =>
+  polygonsOf(geometry).some(
+    ([outer, ...holes]) =>
+      !!outer && pointInRing(lon, lat, outer) && !holes.some((h) => pointInRing(lon, lat, h)),
+  )
+
+/** Whether a point lies inside a WKT boundary; the cached box rejects most points before the ring test */
+export const pointInBoundary = (lat: number, lon: number, wkt: string): boolean => {
+  const geometry = wktToGeoJSON(wkt)
+  return (
+    !!geometry &&
+    bboxContains(geometryBBox(geometry), lat, lon) &&
+    pointInGeometry(lat, lon, geometry)
+  )
+}
+
+/** Every vertex of the geometry as [lat, lon] */
+const vertices = (geometry: GeoPolygon): [number, number][] =>
+  polygonsOf(geometry).flatMap((rings) =>
+    rings.flatMap((ring) => ring.map(([lon, lat]) => [lat, lon] as [number, number])),
+  )
+
+const KM_PER_DEGREE_LAT = 111.32
+
+const boxesOverlap = (a: GeoBBox, b: GeoBBox) =>
+  a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3]
+
+const zoneBBox = (zone: WatchZoneArea): GeoBBox => {
+  if (zone.kind !== 'point') return geometryBBox(zone.geometry)
+  const dLat = zone.radiusKm / KM_PER_DEGREE_LAT
+  const dLon = dLat / Math.max(0.01, Math.cos((zone.latitude * Math.PI) / 180))
+  return [zone.longitude - dLon, zone.latitude - dLat, zone.longitude + dLon, zone.latitude + dLat]
+}
+
+/**
+ * Whether an outage touches a watch zone. Outages with a boundary match when
+ * the boundary and the zone overlap (vertex containment either way); otherwise
+ * the outage's point is tested. Pass `boundary` when the caller already has
+ * the outage's parsed polygon.
+ */
+export const outageIntersectsZone = (
+  outage: Outage,
+  zone: WatchZoneArea,
+  boundary: GeoPolygon | null = outage.polygon ? wktToGeoJSON(outage.polygon) : null,
+): boolean => {
+  const extent: GeoBBox = boundary
+    ? geometryBBox(boundary)
+    : [outage.longitude, outage.latitude, outage.longitude, outage.latitude]
+  if (!boxesOverlap(extent, zoneBBox(zone))) return false
+
+  if (zone.kind === 'point') {
+    const center: [number, number] = [zone.latitude, zone.longitude]
+    const within = (p: [number, number]) => haversineDistance(center, p) <= zone.radiusKm
+    if (within([outage.latitude, outage.longitude])) return true
+    if (!boundary) return false
+    return (
+      pointInGeometry(zone.latitude, zone.longitude, boundary) || vertices(boundary).some(within)
+    )
+  }
+
+  if (pointInGeometry(outage.latitude, outage.longitude, zone.geometry)) return true
+  if (!boundary) return false
+  return (
+    vertices(boundary).some(([lat, lon]) => pointInGeometry(lat, lon, zone.geometry)) ||
+    vertices(zone.geometry).some(([lat, lon]) => pointInGeometry(lat, lon, boundary))
+  )
+}
@@ -23,6 +23,24 @@ const router = createRouter({
       component: () => import('../views/map/AnalyticsView.vue'),
       meta: { layout: 'default' },
     },
+    {
+      path: '/analytics/compare',
+      name: 'analytics-compare',
+      component: () => import('../views/map/CompareProvidersView.vue'),
+      meta: { layout: 'default' },
+    },
+    {
+      path: '/outage/:id',
+      name: 'outage',
+      component: () => import('../views/map/OutageView.vue'),
+      meta: { layout: 'default' },
+    },
+    {
+      path: '/my-reports',
+      name: 'my-reports',
+      component: () => import('../views/map/MyReportsView.vue'),
+      meta: { layout: 'default' },
+    },
     {
       path: '/callback',
       name: 'callback',
@@ -83,6 +101,13 @@ const router = createRouter({
       meta: { layout: 'developer' },
       beforeEnter: [authGuard, subscriptionGuard],
     },
+    {
+      path: '/developers/embed',
+      name: 'embed-builder',
+      component: () => import('../views/developers/EmbedBuilderView.vue'),
+      meta: { layout: 'developer' },
+      beforeEnter: [authGuard, subscriptionGuard],
+    },
     {
       path: '/developers/profile',
       name: 'profile',
@@ -6,11 +6,16 @@ import type {
   AdminProviderMember,
   AdminCustomer,
   AdminFeedbackComment,
+  BanAuthorRequest,
   CreateProviderRequest,
+  ModerationActionRequest,
+  ModerationAuditEntry,
+  ModerationItem,
   PatchProviderRequest,
   ProviderMemberRequest,
   ProviderMemberResponse,
 } from '@/types/admin'
+import type { FeedAnomaly, FeedAnomalyActionRequest } from '@/types/feedHealth'
 
 export const useAdminStore = defineStore('admin', () => {
   const authStore = useAuthStore()
@@ -21,6 +26,9 @@ export const useAdminStore = defineStore('admin', () => {
   const customers = ref<AdminCustomer[]>([])
   const feedbackComments = ref<AdminFeedbackComment[]>([])
   const feedbackTotal = ref(0)
+  const moderationQueue = ref<ModerationItem[]>([])
+  const moderationAudit = ref<ModerationAuditEntry[]>([])
+  const feedAnomalies = ref<FeedAnomaly[]>([])
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
@@ -325,12 +333,171 @@ export const useAdminStore = defineStore('admin', () => {
     }
   }
 
+  // -- Moderation --
+
+  // Moderation loaders throw, so actions can tell a failed refresh from a successful one
+  const loadModerationQueue = async (limit = 200) => {
+    const headers = await authHeaders()
+    const query = new URLSearchParams({ limit: String(limit) })
+    const response = await fetch(`${baseUrl}/v1/admin/moderation/queue?${query}`, { headers })
+    if (!response.ok) throw new Error('Failed to fetch moderation queue')
+    const data = await response.json()
+    moderationQueue.value = data.items ?? []
+  }
+
+  const loadModerationAudit = async (limit = 100, offset = 0) => {
+    const headers = await authHeaders()
+    const query = new URLSearchParams({ limit: String(limit), offset: String(offset) })
+    const response = await fetch(`${baseUrl}/v1/admin/moderation/audit?${query}`, { headers })
+    if (!response.ok) throw new Error('Failed to fetch moderation audit log')
+    const data = await response.json()
+    moderationAudit.value = data.entries ?? []
+  }
+
+  const fetchModerationQueue = async (limit = 200) => {
+    isLoading.value = true
+    error.value = null
+    try {
+      await loadModerationQueue(limit)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  const fetchModerationAudit = async (limit = 100, offset = 0) => {
+    isLoading.value = true
+    error.value = null
+    try {
+      await loadModerationAudit(limit, offset)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  /** Reload the queue and audit trail after an action that has already been applied */
+  const refreshModeration = async (done: string) => {
+    try {
+      await Promise.all([loadModerationQueue(), loadModerationAudit()])
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'Unknown error'
+      throw new Error(`${done}, but the queue could not be refreshed (${reason})`)
+    }
+  }
+
+  /** Apply one action to many flagged items at once */
+  const moderate = async (req: ModerationActionRequest) => {
+    isLoading.value = true
+    error.value = null
+    try {
+      const headers = await authHeaders()
+      const response = await fetch(`${baseUrl}/v1/admin/moderation/actions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(req),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || 'Failed to apply moderation action')
+      }
+      await refreshModeration('Action applied')
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to apply moderation action'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  const banAuthor = async (req: BanAuthorRequest) => {
+    isLoading.value = true
+    error.value = null
+    try {
+      const headers = await authHeaders()
+      const response = await fetch(`${baseUrl}/v1/admin/moderation/bans`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(req),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || 'Failed to ban author')
+      }
+      await refreshModeration('Author banned')
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to ban author'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  // -- Feed health --
+
+  // Anomaly history and triage are shared by every admin, so they live on the
+  // server. These throw; useFeedHealth reports the failures.
+
+  /** Every unresolved anomaly plus the most recently resolved, up to `limit` in all */
+  const loadFeedAnomalies = async (limit = 300) => {
+    const headers = await authHeaders()
+    const query = new URLSearchParams({ limit: String(limit) })
+    const response = await fetch(`${baseUrl}/v1/admin/feed-health/anomalies?${query}`, { headers })
+    if (!response.ok) throw new Error('Failed to fetch feed anomalies')
+    const data = await response.json()
+    feedAnomalies.value = data.anomalies ?? []
+  }
+
+  /** Upsert anomalies by id, e.g. the ones a scan found or changed */
+  const saveFeedAnomalies = async (anomalies: FeedAnomaly[]) => {
+    const headers = await authHeaders()
+    const response = await fetch(`${baseUrl}/v1/admin/feed-health/anomalies`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ anomalies }),
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.message || 'Failed to save feed anomalies')
+    }
+  }
+
+  const triageFeedAnomalies = async (req: FeedAnomalyActionRequest) => {
+    const headers = await authHeaders()
+    const response = await fetch(`${baseUrl}/v1/admin/feed-health/anomalies/actions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(req),
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.message || 'Failed to update feed anomaly')
+    }
+    await loadFeedAnomalies()
+  }
+
+  const clearResolvedFeedAnomalies = async () => {
+    const headers = await authHeaders()
+    const query = new URLSearchParams({ status: 'resolved' })
+    const response = await fetch(`${baseUrl}/v1/admin/feed-health/anomalies?${query}`, {
+      method: 'DELETE',
+      headers,
+    })
+    if (!response.ok) throw new Error('Failed to clear resolved anomalies')
+    await loadFeedAnomalies()
+  }
+
   return {
     providers,
     members,
     customers,
     feedbackComments,
     feedbackTotal,
+    moderationQueue,
+    moderationAudit,
+    feedAnomalies,
     isLoading,
     error,
     fetchProviders,
@@ -347,5 +514,13 @@ export const useAdminStore = defineStore('admin', () => {
     kickNormAnalytics,
     deleteCustomer,
     deleteFeedbackComment,
+    fetchModerationQueue,
+    fetchModerationAudit,
+    moderate,
+    banAuthor,
+    loadFeedAnomalies,
+    saveFeedAnomalies,
+    triageFeedAnomalies,
+    clearResolvedFeedAnomalies,
   }
 })
@@ -1,5 +1,12 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
+import { fetchOutages } from '@/lib/outageApi'
+import { collectEtrTracks, etrRevisionSlices, toEtrSamples, type EtrTrack } from '@/lib/etrAccuracy'
+import {
+  collectInterruptionTracks,
+  toInterruptions,
+  type InterruptionTrack,
+} from '@/lib/reliability'
 import type {
   ComplianceSummary,
   ComplianceBucket,
@@ -9,7 +16,13 @@ import type {
   WorkerRun,
   DirtyBucketsResponse,
   Granularity,
+  EtrSample,
+  Interruption,
 } from '@/types/analytics'
+import type { FetchOutageParams, OutageResponse } from '@/types/outage'
+
+/** Outage history is fetched for ETR and reliability analysis one day at a time */
+const HISTORY_CHUNK_S = 24 * 60 * 60
 
 export const useAnalyticsStore = defineStore('analytics', () => {
   const baseUrl = import.meta.env.VITE_BASE_API_URL
@@ -24,6 +37,15 @@ export const useAnalyticsStore = defineStore('analytics', () => {
   const providerDirectory = ref<Map<string, ProviderDirectoryItem>>(new Map())
   const workerRun = ref<WorkerRun | null>(null)
   const dirtyBuckets = ref<DirtyBucketsResponse | null>(null)
+  const etrSamples = ref<EtrSample[]>([])
+  const interruptions = ref<Interruption[]>([])
+  const isLoadingHistory = ref(false)
+  /** Outage history failures, kept apart from `error` so other sections are unaffected */
+  const historyError = ref<string | null>(null)
+  /** Days of outage history fetched so far, for a progress hint */
+  const historyProgress = ref({ done: 0, total: 0 })
+  /** ETR revision requests done so far, after the daily history */
+  const etrRevisionProgress = ref({ done: 0, total: 0 })
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
@@ -32,6 +54,8 @@ export const useAnalyticsStore = defineStore('analytics', () => {
 
   // AbortController for cancelling in-flight series requests
   let seriesAbort: AbortController | null = null
+  let singleSeriesAbort: AbortController | null = null
+  let historyAbort: AbortController | null = null
 
   // Derived: true when any provider is still loading
   const isLoadingSeries = computed(() => loadingProviders.value.size > 0)
@@ -51,13 +75,42 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     }
   }
 
+  // Plain loaders: return data and throw on failure, leaving store state alone (the feed
+  // health scan runs them alongside the analytics page without clobbering it)
+
+  const loadProviders = async (signal?: AbortSignal): Promise<ProvidersResponse> => {
+    const response = await fetch(`${baseUrl}/v1/norm-compliance/providers`, { signal })
+    if (!response.ok) throw new Error('Failed to fetch providers')
+    return response.json()
+  }
+
+  const loadProviderSeries = async (
+    provider: string,
+    granularity: Granularity,
+    signal?: AbortSignal,
+  ): Promise<ComplianceBucket[]> => {
+    const searchParams = new URLSearchParams({ provider, granularity })
+    const response = await fetch(
+      `${baseUrl}/v1/norm-compliance/series?${searchParams.toString()}`,
+      { signal },
+    )
+    if (!response.ok) throw new Error(`Failed to fetch series for ${provider}`)
+    const data = await response.json()
+    return data.buckets ?? []
+  }
+
+  const loadWorkerRun = async (signal?: AbortSignal): Promise<WorkerRun | null> => {
+    const response = await fetch(`${baseUrl}/v1/norm-compliance/worker`, { signal })
+    if (!response.ok) throw new Error('Failed to fetch worker health')
+    const data = await response.json()
+    return data.latest
+  }
+
   const fetchProviders = async () => {
     isLoading.value = true
     error.value = null
     try {
-      const response = await fetch(`${baseUrl}/v1/norm-compliance/providers`)
-      if (!response.ok) throw new Error('Failed to fetch providers')
-      const data: ProvidersResponse = await response.json()
+      const data = await loadProviders()
       providers.value = data.providers
       allSummary.value = data.allSummary
     } catch (err) {
@@ -86,6 +139,10 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     since?: number
     until?: number
   }) => {
+    // A newer request (another provider or range) supersedes one in flight
+    singleSeriesAbort?.abort()
+    const controller = new AbortController()
+    singleSeriesAbort = controller
     isLoading.value = true
     error.value = null
     try {
@@ -98,14 +155,19 @@ export const useAnalyticsStore = defineStore('analytics', () => {
 
       const response = await fetch(
         `${baseUrl}/v1/norm-compliance/series?${searchParams.toString()}`,
+        { signal: controller.signal },
       )
       if (!response.ok) throw new Error('Failed to fetch compliance series')
       const data = await response.json()
       series.value = data.buckets ?? []
     } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return
       error.value = err instanceof Error ? err.message : 'Unknown error'
     } finally {
-      isLoading.value = false
+      if (singleSeriesAbort === controller) {
+        singleSeriesAbort = null
+        isLoading.value = false
+      }
     }
   }
 
@@ -116,15 +178,9 @@ export const useAnalyticsStore = defineStore('analytics', () => {
   ) => {
     loadingProviders.value = new Set([...loadingProviders.value, provider])
     try {
-      const searchParams = new URLSearchParams({ provider, granularity })
-      const response = await fetch(
-        `${baseUrl}/v1/norm-compliance/series?${searchParams.toString()}`,
-        { signal },
-      )
-      if (!response.ok) throw new Error(`Failed to fetch series for ${provider}`)
-      const data = await response.json()
+      const buckets = await loadProviderSeries(provider, granularity, signal)
       const updated = new Map(seriesByProvider.value)
-      updated.set(provider, data.buckets ?? [])
+      updated.set(provider, buckets)
       seriesByProvider.value = updated
     } catch (err) {
       if (err instanceof DOMException && err.name === 'AbortError') return
@@ -164,10 +220,7 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     isLoading.value = true
     error.value = null
     try {
-      const response = await fetch(`${baseUrl}/v1/norm-compliance/worker`)
-      if (!response.ok) throw new Error('Failed to fetch worker health')
-      const data = await response.json()
-      workerRun.value = data.latest
+      workerRun.value = await loadWorkerRun()
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Unknown error'
     } finally {
@@ -186,12 +239,112 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     }
   }
 
+  /**
+   * Load raw outage history for a window, day by day and newest day first, and
+   * reduce it to one ETR sample and one interruption per restored outage.
+   * Outages are tracked across chunk boundaries, and both lists are published
+   * after every day so the page fills in as history arrives. ETR samples are
+   * limited to outages restored since `etrSince`; once the days are in, their
+   * ETRs are re-read from shorter slices across each outage's life so that
+   * revisions are seen.
+   */
+  const fetchOutageHistory = async (since: number, until: number, etrSince = since) => {
+    if (historyAbort) historyAbort.abort()
+    historyAbort = new AbortController()
+    const { signal } = historyAbort
+
+    isLoadingHistory.value = true
+    historyError.value = null
+    etrRevisionProgress.value = { done: 0, total: 0 }
+    const windows: [number, number][] = []
+    for (let end = until; end > since; end -= HISTORY_CHUNK_S) {
+      windows.push([Math.max(since, end - HISTORY_CHUNK_S), end])
+    }
+    historyProgress.value = { done: 0, total: windows.length }
+
+    const etrTracks = new Map<number, EtrTrack>()
+    const interruptionTracks = new Map<number, InterruptionTrack>()
+    const publishEtr = () => {
+      etrSamples.value = toEtrSamples(etrTracks).filter((sample) => sample.endTs >= etrSince)
+    }
+
+    /** Fetch each request's response, a few at a time, until done or aborted */
+    const drain = async <T>(
+      items: T[],
+      toParams: (item: T) => FetchOutageParams,
+      onResponse: (data: OutageResponse) => void,
+      progress: typeof historyProgress,
+    ) => {
+      const concurrency = 3
+      let idx = 0
+      const next = async (): Promise<void> => {
+        while (idx < items.length && !signal.aborted) {
+          const item = items[idx++]!
+          try {
+            const response = await fetchOutages(toParams(item), signal)
+            if (!response.ok) throw new Error('Failed to fetch outage history')
+            const data: OutageResponse = await response.json()
+            if (signal.aborted) return
+            onResponse(data)
+          } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') return
+            historyError.value = err instanceof Error ? err.message : 'Unknown error'
+          } finally {
+            if (!signal.aborted) {
+              progress.value = { ...progress.value, done: progress.value.done + 1 }
+            }
+          }
+        }
+      }
+      await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => next()))
+    }
+
+    await drain(
+      windows,
+      ([start, end]) => ({ since: start, until: end }),
+      (data) => {
+        collectEtrTracks(data, etrTracks)
+        collectInterruptionTracks(data, interruptionTracks)
+        publishEtr()
+        interruptions.value = toInterruptions(interruptionTracks)
+      },
+      historyProgress,
+    )
+    if (signal.aborted) return
+    isLoadingHistory.value = false
+
+    const slices = etrRevisionSlices(etrTracks, etrSince)
+    etrRevisionProgress.value = { done: 0, total: slices.length }
+    await drain(
+      slices,
+      (slice) => slice,
+      (data) => collectEtrTracks(data, etrTracks),
+      etrRevisionProgress,
+    )
+    if (signal.aborted) return
+    publishEtr()
+  }
+
   /** Cancel in-flight requests and release all cached data */
   const cleanup = () => {
     if (seriesAbort) {
       seriesAbort.abort()
       seriesAbort = null
     }
+    if (singleSeriesAbort) {
+      singleSeriesAbort.abort()
+      singleSeriesAbort = null
+    }
+    if (historyAbort) {
+      historyAbort.abort()
+      historyAbort = null
+    }
+    etrSamples.value = []
+    interruptions.value = []
+    isLoadingHistory.value = false
+    historyError.value = null
+    historyProgress.value = { done: 0, total: 0 }
+    etrRevisionProgress.value = { done: 0, total: 0 }
     seriesByProvider.value = new Map()
     loadingProviders.value = new Set()
     series.value = []
@@ -208,6 +361,12 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     providerDirectory,
     workerRun,
     dirtyBuckets,
+    etrSamples,
+    interruptions,
+    isLoadingHistory,
+    historyError,
+    historyProgress,
+    etrRevisionProgress,
     isLoading,
     isLoadingSeries,
     error,
@@ -215,6 +374,11 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     // Filters
     selectedGranularity,
 
+    // Loaders
+    loadProviders,
+    loadProviderSeries,
+    loadWorkerRun,
+
     // Actions
     fetchSummaries,
     fetchProviders,
@@ -224,6 +388,7 @@ export const useAnalyticsStore = defineStore('analytics', () => {
     fetchAllSeries,
     fetchWorkerHealth,
     fetchDirtyBuckets,
+    fetchOutageHistory,
     cleanup,
   }
 })
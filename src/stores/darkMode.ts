@@ -13,10 +13,12 @@ export const useDarkModeStore = defineStore('darkMode', () => {
   }
 
   const isDark = ref(getInitialMode())
+  // Cleared by setTransient so page-level overrides (e.g. embeds) aren't saved
+  let persist = true
 
   // Persist to localStorage
   watch(isDark, (value) => {
-    localStorage.setItem('darkMode', String(value))
+    if (persist) localStorage.setItem('darkMode', String(value))
   })
 
   const toggle = () => {
@@ -27,9 +29,16 @@ export const useDarkModeStore = defineStore('darkMode', () => {
     isDark.value = value
   }
 
+  /** Apply a mode for this page only, without overwriting the saved preference */
+  const setTransient = (value: boolean) => {
+    persist = false
+    isDark.value = value
+  }
+
   return {
     isDark,
     toggle,
     setDark,
+    setTransient,
   }
 })
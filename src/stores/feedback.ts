@@ -6,11 +6,20 @@ import type {
   FeedbackAction,
   FeedbackSummaryItem,
   FeedbackSummaryResponse,
+  FeedbackComment,
+  FeedbackCommentsResponse,
+  FeedbackCommentThread,
 } from '@/types/feedback'
 
 const summaryKey = (targetType: FeedbackTargetType, targetId: number | string) =>
   `${targetType}:${targetId}`
 
+/** Comments fetched per page of a thread */
+export const COMMENT_PAGE_SIZE = 10
+
+/** Longest comment the API accepts */
+export const COMMENT_MAX_LENGTH = 1000
+
 export const useFeedbackStore = defineStore('feedback', () => {
   const authStore = useAuthStore()
   const baseUrl = import.meta.env.VITE_BASE_API_URL
@@ -18,6 +27,10 @@ export const useFeedbackStore = defineStore('feedback', () => {
   // ── State ──
   const summaries = reactive(new Map<string, FeedbackSummaryItem>())
   const loading = ref(false)
+  const threads = reactive(new Map<string, FeedbackCommentThread>())
+
+  // Optimistic comments get negative ids until the server assigns one
+  let nextPendingId = -1
 
   // ── Helpers ──
   const buildHeaders = async (): Promise<Record<string, string>> => {
@@ -168,12 +181,171 @@ export const useFeedbackStore = defineStore('feedback', () => {
     }
   }
 
+  // ── Comments ──
+  const getThread = (targetType: FeedbackTargetType, targetId: number | string) =>
+    threads.get(summaryKey(targetType, targetId)) ?? null
+
+  const updateThread = (key: string, patch: Partial<FeedbackCommentThread>) => {
+    const thread = threads.get(key) ?? { comments: [], total: 0, loading: false, error: null }
+    threads.set(key, { ...thread, ...patch })
+  }
+
+  /** Keep the summary's comment count in step with posted comments */
+  const adjustCommentCount = (key: string, delta: number) => {
+    const summary = summaries.get(key)
+    if (summary) summaries.set(key, { ...summary, commentCount: summary.commentCount + delta })
+  }
+
+  /** Load the first page of a thread, or the next page when `more` is set */
+  const fetchComments = async (
+    targetType: FeedbackTargetType,
+    targetId: number | string,
+    more = false,
+  ) => {
+    const key = summaryKey(targetType, targetId)
+    const current = threads.get(key)
+    if (current?.loading) return
+    // Pending comments are not on the server yet, so they don't count toward the offset
+    const loaded = more ? (current?.comments.filter((c) => !c.pending) ?? []) : []
+    updateThread(key, { loading: true, error: null })
+    try {
+      const params = new URLSearchParams({
+        targetType,
+        targetId: String(targetId),
+        limit: String(COMMENT_PAGE_SIZE),
+        offset: String(loaded.length),
+      })
+      const headers = await buildHeaders()
+      const response = await fetch(`${baseUrl}/v1/feedback/comments?${params}`, { headers })
+      if (!response.ok) throw new Error('Failed to load comments')
+      const data: FeedbackCommentsResponse = await response.json()
+      const pending = threads.get(key)?.comments.filter((c) => c.pending) ?? []
+      const seen = new Set(loaded.map((c) => c.id))
+      updateThread(key, {
+        comments: [...pending, ...loaded, ...data.comments.filter((c) => !seen.has(c.id))],
+        total: data.total,
+        loading: false,
+      })
+    } catch (err) {
+      updateThread(key, {
+        loading: false,
+        error: err instanceof Error ? err.message : 'Failed to load comments',
+      })
+    }
+  }
+
+  /**
+   * Post a comment, showing it at the top of the thread straight away.
+   * Signed-in users may still post anonymously. Returns false if the post
+   * failed and the optimistic entry was withdrawn.
+   */
+  const postComment = async (
+    targetType: FeedbackTargetType,
+    targetId: number | string,
+    text: string,
+    anonymous: boolean,
+  ): Promise<boolean> => {
+    const comment = text.trim().slice(0, COMMENT_MAX_LENGTH)
+    if (!comment) return false
+    const key = summaryKey(targetType, targetId)
+    const asAnonymous = anonymous || !authStore.isAuthenticated
+    const optimistic: FeedbackComment = {
+      id: nextPendingId--,
+      targetType,
+      targetId: Number(targetId),
+      authorName: asAnonymous ? null : (authStore.user?.name ?? authStore.user?.email ?? null),
+      comment,
+      createdAt: Math.floor(Date.now() / 1000),
+      flags: 0,
+      myFlag: false,
+      isMine: true,
+      pending: true,
+    }
+    const thread = threads.get(key)
+    updateThread(key, {
+      comments: [optimistic, ...(thread?.comments ?? [])],
+      total: (thread?.total ?? 0) + 1,
+    })
+    adjustCommentCount(key, 1)
+
+    const replace = (next: FeedbackComment | null) => {
+      const comments = threads.get(key)?.comments ?? []
+      updateThread(key, {
+        comments: next
+          ? comments.map((c) => (c.id === optimistic.id ? next : c))
+          : comments.filter((c) => c.id !== optimistic.id),
+      })
+    }
+
+    try {
+      const headers = await buildHeaders()
+      const response = await fetch(`${baseUrl}/v1/feedback/comments`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          targetType,
+          targetId: Number(targetId),
+          comment,
+          anonymous: asAnonymous,
+        }),
+      })
+      if (!response.ok) throw new Error('Failed to post comment')
+      const saved: FeedbackComment = await response.json()
+      replace(saved)
+      return true
+    } catch {
+      // Revert on error
+      replace(null)
+      const reverted = threads.get(key)
+      if (reverted) updateThread(key, { total: Math.max(0, reverted.total - 1) })
+      adjustCommentCount(key, -1)
+      return false
+    }
+  }
+
+  const toggleCommentFlag = async (comment: FeedbackComment) => {
+    if (comment.pending) return
+    const key = summaryKey(comment.targetType, comment.targetId)
+    const setComment = (next: FeedbackComment) => {
+      const thread = threads.get(key)
+      if (!thread) return
+      updateThread(key, {
+        comments: thread.comments.map((c) => (c.id === next.id ? next : c)),
+      })
+    }
+
+    // Optimistic update
+    const prev = comment
+    setComment({
+      ...prev,
+      myFlag: !prev.myFlag,
+      flags: prev.flags + (prev.myFlag ? -1 : 1),
+    })
+
+    try {
+      const headers = await buildHeaders()
+      const response = await fetch(`${baseUrl}/v1/feedback/comments/${prev.id}/flag`, {
+        method: prev.myFlag ? 'DELETE' : 'POST',
+        headers,
+      })
+      if (!response.ok) throw new Error('Failed to flag comment')
+    } catch {
+      // Revert on error
+      setComment(prev)
+    }
+  }
+
   return {
     summaries,
+    threads,
     loading,
     getSummary,
+    getThread,
     fetchSummaries,
     submitVote,
     toggleFlag,
+    fetchComments,
+    postComment,
+    toggleCommentFlag,
   }
 })
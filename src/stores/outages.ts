@@ -5,12 +5,20 @@ import {
   type OutageResponse,
   type Outage,
   type OutageBlock,
-  type FetchOutageParams,
+  type OutageStreamStatus,
 } from '../types/outage'
 import {
   OUTAGE_CHUNK_DURATION_SEC,
   OUTAGE_CHUNK_CONCURRENCY,
+  OUTAGE_CHUNK_CACHE_LIMIT,
+  OUTAGE_CHUNK_SETTLE_SEC,
+  OUTAGE_STREAM_RETRY_MS,
+  OUTAGE_STREAM_RETRY_MAX_MS,
 } from '../config/map'
+import { readChunks, writeChunk, deleteChunks } from '../lib/chunkCache'
+import { fetchOutages } from '../lib/outageApi'
+import { countActiveFilters, createEmptyFilters, matchesOutageFilters } from '../lib/outageFilters'
+import type { OutageFilters } from '../types/outageFilter'
 
 // ─── Internal merge state (not reactive — mutated during chunk merging) ───
 interface AccumulatedState {
@@ -27,16 +35,37 @@ function createAccumulatedState(): AccumulatedState {
 /**
  * Merge a chunk response into accumulated state.
  * Deduplicates outages by id and remaps block indexes to global positions.
+ * When `range` is given, blocks outside [start, end] are skipped, and so are
+ * outages no in-range block references (aligned chunks start before the range).
  */
-function mergeChunk(state: AccumulatedState, response: OutageResponse): void {
+function mergeChunk(
+  state: AccumulatedState,
+  response: OutageResponse,
+  range?: { start: number; end: number },
+): void {
+  const rawBlocks: OutageBlock[] = Array.isArray(response.blocks)
+    ? response.blocks
+    : response.blocks instanceof Map
+      ? Array.from(response.blocks.values())
+      : Object.values(response.blocks as Record<string, OutageBlock>)
+
+  const blocks = range
+    ? rawBlocks.filter((block) => block.ts >= range.start && block.ts <= range.end)
+    : rawBlocks
+  const referenced = range ? new Set(blocks.flatMap((block) => block.indexes)) : null
+
   const localToGlobal = new Map<number, number>()
 
   for (let localIdx = 0; localIdx < response.outages.length; localIdx++) {
     const outage = response.outages[localIdx]!
     const existing = state.idToIndex.get(outage.id)
     if (existing !== undefined) {
+      // An outage that has since ended replaces its open-ended copy
+      if (outage.endTs !== null && state.outages[existing]?.endTs === null) {
+        state.outages[existing] = outage
+      }
       localToGlobal.set(localIdx, existing)
-    } else {
+    } else if (!referenced || referenced.has(localIdx)) {
       const globalIdx = state.outages.length
       state.outages.push(outage)
       state.idToIndex.set(outage.id, globalIdx)
@@ -44,13 +73,7 @@ function mergeChunk(state: AccumulatedState, response: OutageResponse): void {
     }
   }
 
-  const rawBlocks: OutageBlock[] = Array.isArray(response.blocks)
-    ? response.blocks
-    : response.blocks instanceof Map
-      ? Array.from(response.blocks.values())
-      : Object.values(response.blocks as Record<string, OutageBlock>)
-
-  for (const block of rawBlocks) {
+  for (const block of blocks) {
     const remapped = block.indexes
       .map((i) => localToGlobal.get(i))
       .filter((i): i is number => i !== undefined)
@@ -69,12 +92,50 @@ function mergeChunk(state: AccumulatedState, response: OutageResponse): void {
     }
   }
 
+  updateMaxCount(state)
+}
+
+function updateMaxCount(state: AccumulatedState): void {
   state.maxCount = 0
   for (const block of state.blocksByTs.values()) {
     if ((block.count ?? 0) > state.maxCount) state.maxCount = block.count ?? 0
   }
 }
 
+/**
+ * Drop blocks before `startEpoch` and the outages only they referenced, then
+ * remap the remaining block indexes (the live window slides forward).
+ */
+function pruneBlocks(state: AccumulatedState, startEpoch: number): void {
+  let dropped = false
+  for (const ts of state.blocksByTs.keys()) {
+    if (ts < startEpoch) {
+      state.blocksByTs.delete(ts)
+      dropped = true
+    }
+  }
+  if (!dropped) return
+
+  const referenced = new Set<number>()
+  for (const block of state.blocksByTs.values()) {
+    for (const i of block.indexes) referenced.add(i)
+  }
+  const oldToNew = new Map<number, number>()
+  const outages: Outage[] = []
+  state.idToIndex.clear()
+  state.outages.forEach((outage, i) => {
+    if (!referenced.has(i)) return
+    oldToNew.set(i, outages.length)
+    state.idToIndex.set(outage.id, outages.length)
+    outages.push(outage)
+  })
+  state.outages = outages
+  for (const block of state.blocksByTs.values()) {
+    block.indexes = block.indexes.map((i) => oldToNew.get(i)!)
+  }
+  updateMaxCount(state)
+}
+
 /** Convert a TimeInterval enum value to seconds */
 function intervalToSeconds(iv: TimeInterval): number {
   switch (iv) {
@@ -106,6 +167,8 @@ function padBlocks(state: AccumulatedState, startEpoch: number, endEpoch: number
 
 /**
  * Split a time range into chunks ordered by proximity to an anchor timestamp.
+ * Chunks are aligned to multiples of `chunkDuration` so overlapping ranges share
+ * chunk boundaries (and cache entries); the last chunk is clipped at `endEpoch`.
  * The chunk containing the anchor is returned first, then alternating outward.
  */
 function computeChunks(
@@ -115,7 +178,8 @@ function computeChunks(
   chunkDuration: number = OUTAGE_CHUNK_DURATION_SEC,
 ): { start: number; end: number }[] {
   const chunks: { start: number; end: number }[] = []
-  for (let t = startEpoch; t < endEpoch; t += chunkDuration) {
+  const alignedStart = Math.floor(startEpoch / chunkDuration) * chunkDuration
+  for (let t = alignedStart; t < endEpoch; t += chunkDuration) {
     chunks.push({ start: t, end: Math.min(t + chunkDuration, endEpoch) })
   }
   if (!chunks.length) return []
@@ -131,6 +195,23 @@ function computeChunks(
   return ordered
 }
 
+/** Cache key for a fetched chunk response */
+function chunkKey(iv: TimeInterval | string, start: number, end: number): string {
+  return `${iv}:${start}:${end}`
+}
+
+/**
+ * Only full-length, settled chunks are final and cached; the clipped head chunk,
+ * recent chunks (late ingestion) and chunks with still-open outages are refetched
+ */
+function isFinalChunk(start: number, end: number, data: OutageResponse): boolean {
+  return (
+    end - start === OUTAGE_CHUNK_DURATION_SEC &&
+    end + OUTAGE_CHUNK_SETTLE_SEC < Date.now() / 1000 &&
+    data.outages.every((o) => o.endTs !== null)
+  )
+}
+
 // ─── Store ───────────────────────────────────────────────────
 
 export const useOutageStore = defineStore('outages', () => {
@@ -141,6 +222,7 @@ export const useOutageStore = defineStore('outages', () => {
   const endTime = ref<Date | null>(new Date())
   const selectedOutageTs = ref<number | null>(null)
   const selectedProvider = ref<string | null>(null)
+  const filters = ref<OutageFilters>(createEmptyFilters())
   const providers = ref<string[]>([])
 
   // ─── Accumulated state (reactive snapshots updated after each chunk) ───
@@ -153,8 +235,21 @@ export const useOutageStore = defineStore('outages', () => {
   const isLoadingChunks = ref(false)
   const error = ref<string | null>(null)
 
+  // ─── Live streaming ───
+  const live = ref(false)
+  const liveStatus = ref<OutageStreamStatus>('idle')
+
   let _state = createAccumulatedState()
   let _chunksAbort: AbortController | null = null
+  /** Complete chunk responses keyed by interval + chunk range (insertion order = LRU) */
+  const _chunkCache = new Map<string, OutageResponse>()
+  let _stream: EventSource | null = null
+  let _streamRetryTimer: ReturnType<typeof setTimeout> | null = null
+  /** Consecutive failed connections, for the reconnect backoff */
+  let _streamFailures = 0
+  /** Range last written by the stream (so the range watcher can skip reloading) */
+  let _streamStartTime: Date | null = null
+  let _streamEndTime: Date | null = null
 
   /** Loading is true only until the priority (first) chunk arrives */
   const loading = computed(() => isLoadingChunks.value && !priorityChunkLoaded.value)
@@ -169,19 +264,33 @@ export const useOutageStore = defineStore('outages', () => {
 
   const blocks: ComputedRef<OutageBlock[]> = computed(() => accBlocks.value)
 
+  const activeFilterCount = computed(() => countActiveFilters(filters.value))
+
+  /** Whether the provider selection or any attribute filter narrows the outages */
+  const isFiltered = computed(() => !!selectedProvider.value || activeFilterCount.value > 0)
+
+  /** Whether an outage in the block at `blockTs` passes the provider and attribute filters */
+  const matchesFilters = (outage: Outage, blockTs: number): boolean =>
+    (!selectedProvider.value || outage.provider === selectedProvider.value) &&
+    matchesOutageFilters(outage, filters.value, blockTs)
+
+  const resetFilters = () => {
+    filters.value = createEmptyFilters()
+  }
+
   const filteredBlocks: ComputedRef<OutageBlock[]> = computed(() => {
-    if (!selectedProvider.value) return blocks.value
-    const provider = selectedProvider.value
+    if (!isFiltered.value) return blocks.value
     return blocks.value.map((block) => {
-      const count = block.indexes.filter(
-        (i) => outages.value[i]?.provider === provider,
-      ).length
+      const count = block.indexes.filter((i) => {
+        const outage = outages.value[i]
+        return outage !== undefined && matchesFilters(outage, block.ts)
+      }).length
       return { ...block, count }
     })
   })
 
   const maxCount: ComputedRef<number> = computed(() => {
-    if (selectedProvider.value) {
+    if (isFiltered.value) {
       return Math.max(0, ...filteredBlocks.value.map((b) => b.count ?? 0))
     }
     return accMaxCount.value
@@ -191,17 +300,30 @@ export const useOutageStore = defineStore('outages', () => {
     if (selectedOutageTs.value === null) return []
     const block = blocks.value.find((b) => b.ts === selectedOutageTs.value)
     if (!block) return []
-    let result = block.indexes
+    return block.indexes
       .map((index) => outages.value[index])
-      .filter((o): o is Outage => o !== undefined)
-    if (selectedProvider.value) {
-      result = result.filter((o) => o.provider === selectedProvider.value)
-    }
-    return result.sort((a, b) => a.startTs - b.startTs)
+      .filter((o): o is Outage => o !== undefined && matchesFilters(o, block.ts))
+      .sort((a, b) => a.startTs - b.startTs)
   })
 
+  /** Copy the non-reactive merge state into the reactive snapshots */
+  const publishState = () => {
+    accOutages.value = [..._state.outages]
+    accBlocks.value = Array.from(_state.blocksByTs.values()).sort((a, b) => a.ts - b.ts)
+    accMaxCount.value = _state.maxCount
+  }
+
   // ─── Progressive chunk loading ────────────────────────────
 
+  /** Add a complete chunk to the in-memory cache with LRU eviction */
+  const cacheChunk = (key: string, data: OutageResponse) => {
+    _chunkCache.set(key, data)
+    if (_chunkCache.size > OUTAGE_CHUNK_CACHE_LIMIT) {
+      const firstKey = _chunkCache.keys().next().value
+      if (firstKey !== undefined) _chunkCache.delete(firstKey)
+    }
+  }
+
   const loadChunks = async () => {
     if (_chunksAbort) _chunksAbort.abort()
     _chunksAbort = new AbortController()
@@ -234,16 +356,56 @@ export const useOutageStore = defineStore('outages', () => {
       return
     }
 
+    const iv = interval.value
+    const range = { start: startEpoch, end: endEpoch }
+
+    // Pull chunks persisted by earlier sessions into the in-memory cache
+    const unseen = chunks
+      .map((c) => chunkKey(iv, c.start, c.end))
+      .filter((key) => !_chunkCache.has(key))
+    if (unseen.length) {
+      const persisted = await readChunks(unseen)
+      if (signal.aborted) return
+      for (const [key, response] of persisted) cacheChunk(key, response)
+    }
+
+    // Rebuild from chunks fetched earlier; only the rest goes to the network
+    const missing: typeof chunks = []
+    for (const chunk of chunks) {
+      const key = chunkKey(iv, chunk.start, chunk.end)
+      const cached = _chunkCache.get(key)
+      if (!cached) {
+        missing.push(chunk)
+        continue
+      }
+      _chunkCache.delete(key)
+      _chunkCache.set(key, cached)
+      mergeChunk(_state, cached, range)
+      chunksLoaded.value++
+    }
+    if (chunksLoaded.value) {
+      padBlocks(_state, startEpoch, endEpoch, stepSec)
+      publishState()
+      // Only skip the loading state if the chunk the user is looking at is ready
+      priorityChunkLoaded.value = !missing.includes(chunks[0]!)
+    }
+
+    if (!missing.length) {
+      priorityChunkLoaded.value = true
+      isLoadingChunks.value = false
+      return
+    }
+
     // Concurrency-limited fetch (same pattern as analytics.ts)
     let idx = 0
     const next = async (): Promise<void> => {
-      while (idx < chunks.length) {
-        const chunk = chunks[idx++]!
+      while (idx < missing.length) {
+        const chunk = missing[idx++]!
         if (signal.aborted) return
 
         try {
           const params = new URLSearchParams({
-            interval: interval.value,
+            interval: iv,
             start: chunk.start.toString(),
             end: chunk.end.toString(),
           })
@@ -253,17 +415,19 @@ export const useOutageStore = defineStore('outages', () => {
 
           if (signal.aborted) return
 
-          mergeChunk(_state, data)
+          if (isFinalChunk(chunk.start, chunk.end, data)) {
+            const key = chunkKey(iv, chunk.start, chunk.end)
+            cacheChunk(key, data)
+            void writeChunk(key, data)
+          }
+
+          mergeChunk(_state, data, range)
           padBlocks(_state, startEpoch, endEpoch, stepSec)
 
           // Snapshot to reactive refs
-          accOutages.value = [..._state.outages]
-          accBlocks.value = Array.from(_state.blocksByTs.values()).sort(
-            (a, b) => a.ts - b.ts,
-          )
-          accMaxCount.value = _state.maxCount
+          publishState()
           chunksLoaded.value++
-          if (chunksLoaded.value === 1) priorityChunkLoaded.value = true
+          if (chunk === chunks[0]) priorityChunkLoaded.value = true
         } catch (err) {
           if (err instanceof DOMException && err.name === 'AbortError') return
           console.warn('[OutageStore] Chunk fetch failed:', err)
@@ -274,7 +438,7 @@ export const useOutageStore = defineStore('outages', () => {
     try {
       await Promise.all(
         Array.from(
-          { length: Math.min(OUTAGE_CHUNK_CONCURRENCY, chunks.length) },
+          { length: Math.min(OUTAGE_CHUNK_CONCURRENCY, missing.length) },
           () => next(),
         ),
       )
@@ -285,7 +449,143 @@ export const useOutageStore = defineStore('outages', () => {
     }
   }
 
-  const refetch = () => loadChunks()
+  /**
+   * Reload the current range from the network. Its cached chunks are dropped
+   * (memory and IndexedDB), as is any cached chunk that is no longer final;
+   * settled chunks outside the range stay cached.
+   */
+  const refetch = async () => {
+    const stale = new Set<string>()
+    if (startTime.value && endTime.value) {
+      const startEpoch = dateToEpochSeconds(startTime.value)
+      const endEpoch = dateToEpochSeconds(endTime.value)
+      for (const chunk of computeChunks(startEpoch, endEpoch, endEpoch)) {
+        stale.add(chunkKey(interval.value, chunk.start, chunk.end))
+      }
+    }
+    for (const [key, data] of _chunkCache) {
+      const [, start, end] = key.split(':').map(Number)
+      if (!isFinalChunk(start!, end!, data)) stale.add(key)
+    }
+    for (const key of stale) _chunkCache.delete(key)
+    await deleteChunks([...stale])
+    return loadChunks()
+  }
+
+  // ─── Live streaming (SSE) ─────────────────────────────────
+
+  /**
+   * Merge one streamed delta into the accumulated state.
+   * Each message is an OutageResponse covering the newest block(s): new outages,
+   * outages that have ended since, and the head block indexes.
+   */
+  const applyStreamDelta = (data: OutageResponse) => {
+    if (!startTime.value || !endTime.value) return
+
+    const prevHead = accBlocks.value[accBlocks.value.length - 1]?.ts ?? null
+    const followingHead = selectedOutageTs.value === null || selectedOutageTs.value === prevHead
+
+    // Slide the whole window so its length stays fixed while the head advances
+    const prevStart = dateToEpochSeconds(startTime.value)
+    const prevEnd = dateToEpochSeconds(endTime.value)
+    const headEpoch = Math.max(prevEnd, data.endTs)
+    const startEpoch = prevStart + (headEpoch - prevEnd)
+    mergeChunk(_state, data, { start: startEpoch, end: headEpoch })
+    pruneBlocks(_state, startEpoch)
+    padBlocks(_state, startEpoch, headEpoch, intervalToSeconds(interval.value))
+    publishState()
+
+    if (headEpoch > prevEnd) {
+      _streamStartTime = new Date(startEpoch * 1000)
+      _streamEndTime = new Date(headEpoch * 1000)
+      startTime.value = _streamStartTime
+      endTime.value = _streamEndTime
+    }
+
+    // Keep the selection pinned to "now" if the user was watching the head,
+    // and on the oldest block if theirs slid out of the window
+    const first = accBlocks.value[0]
+    const head = accBlocks.value[accBlocks.value.length - 1]
+    if (followingHead && head) selectedOutageTs.value = head.ts
+    else if (first && selectedOutageTs.value !== null && selectedOutageTs.value < first.ts) {
+      selectedOutageTs.value = first.ts
+    }
+  }
+
+  const closeStream = () => {
+    if (_streamRetryTimer) {
+      clearTimeout(_streamRetryTimer)
+      _streamRetryTimer = null
+    }
+    if (_stream) {
+      _stream.close()
+      _stream = null
+    }
+    liveStatus.value = 'idle'
+  }
+
+  const openStream = () => {
+    closeStream()
+    if (!endTime.value) return
+
+    const params = new URLSearchParams({
+      interval: interval.value,
+      since: dateToEpochSeconds(endTime.value).toString(),
+    })
+    liveStatus.value = 'connecting'
+    const source = new EventSource(`${baseApiUrl}/outages/stream?${params}`)
+    source.onopen = () => {
+      _streamFailures = 0
+      liveStatus.value = 'open'
+    }
+    source.onmessage = (event: MessageEvent<string>) => {
+      try {
+        applyStreamDelta(JSON.parse(event.data) as OutageResponse)
+      } catch (err) {
+        console.warn('[OutageStore] Bad stream message:', err)
+      }
+    }
+    // EventSource retries dropped connections itself, but gives up for good on an
+    // HTTP error or bad content type; reopen from the current head after a backoff
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) {
+        liveStatus.value = 'connecting'
+        return
+      }
+      closeStream()
+      liveStatus.value = 'error'
+      const delay = Math.min(
+        OUTAGE_STREAM_RETRY_MS * 2 ** _streamFailures,
+        OUTAGE_STREAM_RETRY_MAX_MS,
+      )
+      _streamFailures++
+      _streamRetryTimer = setTimeout(() => {
+        _streamRetryTimer = null
+        if (live.value) openStream()
+      }, delay)
+    }
+    _stream = source
+  }
+
+  /** Keep the map current by streaming new and ended outages onto the timeline head */
+  const startLive = () => {
+    live.value = true
+    const now = Date.now()
+    if (now - (endTime.value?.getTime() ?? 0) > 60_000) {
+      // Jumping back to "now" reloads the range; the stream opens once that finishes
+      refreshTimeRange()
+      return
+    }
+    openStream()
+  }
+
+  const stopLive = () => {
+    live.value = false
+    _streamFailures = 0
+    closeStream()
+  }
+
+  const toggleLive = () => (live.value ? stopLive() : startLive())
 
   /** Refresh time range to "now" if stale (e.g. after route navigation) */
   const refreshTimeRange = () => {
@@ -298,7 +598,25 @@ export const useOutageStore = defineStore('outages', () => {
   }
 
   // Trigger chunk loading when time range or interval changes
-  watch([startTime, endTime, interval], () => loadChunks(), { immediate: true })
+  watch(
+    [startTime, endTime, interval],
+    async ([start, end, iv], prev, onCleanup) => {
+      // The stream extending the head is not a range change
+      const [prevStart, , prevIv] = prev ?? []
+      const startKept = start === prevStart || start === _streamStartTime
+      if (end === _streamEndTime && startKept && iv === prevIv) return
+
+      let superseded = false
+      onCleanup(() => (superseded = true))
+
+      closeStream()
+      await loadChunks()
+      // Resume streaming from the new range end if it still reaches "now"
+      if (superseded || !live.value || !end) return
+      if (Date.now() - end.getTime() <= 60_000) openStream()
+    },
+    { immediate: true },
+  )
 
   // ─── Auto-select last block when blocks first arrive ──────
 
@@ -322,20 +640,6 @@ export const useOutageStore = defineStore('outages', () => {
 
   // ─── One-off fetch helpers (unchanged) ────────────────────
 
-  const fetchOutages = async (params: FetchOutageParams): Promise<Response> => {
-    const fetchUrl = new URL(`${baseApiUrl}/outages`)
-    if (params.since) {
-      fetchUrl.searchParams.append('start', params.since.toString())
-    }
-    if (params.until) {
-      fetchUrl.searchParams.append('end', params.until.toString())
-    }
-    if (params.provider) {
-      fetchUrl.searchParams.append('provider', params.provider)
-    }
-    return fetch(fetchUrl.toString())
-  }
-
   const fetchOutage = async (id: string): Promise<Response> => {
     const fetchUrl = new URL(`${baseApiUrl}/outages/${id}`)
     return fetch(fetchUrl.toString())
@@ -369,16 +673,25 @@ export const useOutageStore = defineStore('outages', () => {
     selectedOutageTs,
     selectedBlockOutages,
     selectedProvider,
+    filters,
+    activeFilterCount,
     providers,
     loading,
     loadingProgress,
     error,
+    live,
+    liveStatus,
+    startLive,
+    stopLive,
+    toggleLive,
     refetch,
     refreshTimeRange,
     fetchOutages,
     fetchOutage,
     fetchProviders,
     loadProviders,
+    matchesFilters,
+    resetFilters,
   }
 })
 
@@ -4,10 +4,38 @@ import { useAuthStore } from './auth'
 import type {
   CreateUserOutageRequest,
   CreateUserOutageResponse,
+  MyUserOutageReport,
+  MyUserOutageReportsResponse,
+  UpdateUserOutageRequest,
   UserOutageReport,
   UserOutageReportsResponse,
 } from '@/types/userOutage'
 
+const OWNER_TOKEN_KEY = 'userOutageOwnerToken'
+
+/** The token this browser's reports were filed with, or null if none yet */
+export const storedOwnerToken = (): string | null => {
+  try {
+    return localStorage.getItem(OWNER_TOKEN_KEY)
+  } catch {
+    return null
+  }
+}
+
+/** Reuse this browser's token, creating one on first report */
+const ensureOwnerToken = (): string | null => {
+  const existing = storedOwnerToken()
+  if (existing) return existing
+  try {
+    const token = crypto.randomUUID()
+    localStorage.setItem(OWNER_TOKEN_KEY, token)
+    return token
+  } catch {
+    // Private mode or storage disabled: the report just can't be managed later
+    return null
+  }
+}
+
 export const useUserOutageStore = defineStore('userOutages', () => {
   const authStore = useAuthStore()
   const baseUrl = import.meta.env.VITE_BASE_API_URL
@@ -21,6 +49,26 @@ export const useUserOutageStore = defineStore('userOutages', () => {
   const reportsLoading = ref(false)
   const reportsError = ref<string | null>(null)
 
+  // Own reports state
+  const myReports = ref<MyUserOutageReport[]>([])
+  const myReportsLoading = ref(false)
+  const myReportsError = ref<string | null>(null)
+
+  /** Auth when signed in, plus the browser token for reports filed anonymously */
+  const ownerHeaders = async (): Promise<Record<string, string>> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const token = storedOwnerToken()
+    if (token) headers['X-Report-Token'] = token
+    if (authStore.isAuthenticated) {
+      try {
+        headers['Authorization'] = `Bearer ${await authStore.getAccessToken()}`
+      } catch {
+        // Fall back to the browser token
+      }
+    }
+    return headers
+  }
+
   const submitReport = async (req: CreateUserOutageRequest): Promise<CreateUserOutageResponse> => {
     submitting.value = true
     try {
@@ -38,10 +86,11 @@ export const useUserOutageStore = defineStore('userOutages', () => {
         }
       }
 
+      const ownerToken = ensureOwnerToken()
       const response = await fetch(`${baseUrl}/v1/user-outages`, {
         method: 'POST',
         headers,
-        body: JSON.stringify(req),
+        body: JSON.stringify(ownerToken ? { ...req, ownerToken } : req),
       })
 
       if (response.status === 429) {
@@ -85,6 +134,85 @@ export const useUserOutageStore = defineStore('userOutages', () => {
     }
   }
 
+  /** Reports in an arbitrary window, without touching the shared `reports` list */
+  const fetchReportsBetween = async (since: number, until: number): Promise<UserOutageReport[]> => {
+    const params = new URLSearchParams({
+      since: String(since),
+      until: String(until),
+      limit: '500',
+    })
+    const response = await fetch(`${baseUrl}/v1/user-outages?${params}`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch user reports')
+    }
+    const data: UserOutageReportsResponse = await response.json()
+    return data.reports
+  }
+
+  /** Reports filed by the signed-in user or from this browser, newest first */
+  const fetchMyReports = async () => {
+    myReportsLoading.value = true
+    myReportsError.value = null
+    try {
+      const headers = await ownerHeaders()
+      // Nothing to look up for an anonymous visitor who never reported
+      if (!headers['X-Report-Token'] && !headers['Authorization']) {
+        myReports.value = []
+        return
+      }
+      const response = await fetch(`${baseUrl}/v1/user-outages/mine`, { headers })
+      if (!response.ok) {
+        throw new Error('Failed to fetch your reports')
+      }
+      const data: MyUserOutageReportsResponse = await response.json()
+      myReports.value = [...data.reports].sort((a, b) => b.createdAt - a.createdAt)
+    } catch (err) {
+      myReportsError.value = err instanceof Error ? err.message : 'Unknown error'
+    } finally {
+      myReportsLoading.value = false
+    }
+  }
+
+  const replaceMyReport = (updated: MyUserOutageReport) => {
+    myReports.value = myReports.value.map((r) => (r.id === updated.id ? updated : r))
+  }
+
+  /** Add notes or mark power restored; throws on failure */
+  const updateMyReport = async (id: number, req: UpdateUserOutageRequest) => {
+    const headers = await ownerHeaders()
+    const response = await fetch(`${baseUrl}/v1/user-outages/${id}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(req),
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.message || 'Failed to update report')
+    }
+    const data: MyUserOutageReport = await response.json()
+    replaceMyReport(data)
+    return data
+  }
+
+  const markRestored = (id: number) =>
+    updateMyReport(id, { restoredTs: Math.floor(Date.now() / 1000) })
+
+  /** Withdraw a report made in error; it stays listed as withdrawn */
+  const withdrawReport = async (id: number) => {
+    const headers = await ownerHeaders()
+    const response = await fetch(`${baseUrl}/v1/user-outages/${id}`, {
+      method: 'DELETE',
+      headers,
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.message || 'Failed to withdraw report')
+    }
+    const report = myReports.value.find((r) => r.id === id)
+    if (report) replaceMyReport({ ...report, status: 'withdrawn' })
+    reports.value = reports.value.filter((r) => r.id !== id)
+  }
+
   return {
     submitting,
     lastSubmission,
@@ -93,5 +221,13 @@ export const useUserOutageStore = defineStore('userOutages', () => {
     reportsLoading,
     reportsError,
     fetchReports,
+    fetchReportsBetween,
+    myReports,
+    myReportsLoading,
+    myReportsError,
+    fetchMyReports,
+    updateMyReport,
+    markRestored,
+    withdrawReport,
   }
 })
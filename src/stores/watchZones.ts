@@ -0,0 +1,94 @@
+import { ref } from 'vue'
+import { defineStore } from 'pinia'
+import { useAuthStore } from './auth'
+import type { CreateWatchZoneRequest, WatchZone, WatchZonesResponse } from '@/types/watchZone'
+
+export const useWatchZoneStore = defineStore('watchZones', () => {
+  const authStore = useAuthStore()
+  const baseUrl = import.meta.env.VITE_BASE_API_URL
+
+  const zones = ref<WatchZone[]>([])
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+
+  const fetchZones = async () => {
+    if (!authStore.isAuthenticated) {
+      zones.value = []
+      return
+    }
+    isLoading.value = true
+    error.value = null
+    try {
+      const token = await authStore.getAccessToken()
+      const response = await fetch(`${baseUrl}/v1/watch-zones`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!response.ok) throw new Error('Failed to fetch watch zones')
+      const data: WatchZonesResponse = await response.json()
+      zones.value = data.zones
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  const createZone = async (request: CreateWatchZoneRequest): Promise<WatchZone> => {
+    isLoading.value = true
+    error.value = null
+    try {
+      const token = await authStore.getAccessToken()
+      const response = await fetch(`${baseUrl}/v1/watch-zones`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || 'Failed to create watch zone')
+      }
+      const zone: WatchZone = await response.json()
+      zones.value = [...zones.value, zone]
+      return zone
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to create watch zone'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  const deleteZone = async (id: number) => {
+    isLoading.value = true
+    error.value = null
+    try {
+      const token = await authStore.getAccessToken()
+      const response = await fetch(`${baseUrl}/v1/watch-zones/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || 'Failed to delete watch zone')
+      }
+      zones.value = zones.value.filter((z) => z.id !== id)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to delete watch zone'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  return {
+    zones,
+    isLoading,
+    error,
+    fetchZones,
+    createZone,
+    deleteZone,
+  }
+})
@@ -86,3 +86,46 @@ export interface AdminFeedbackComment {
   comment: string
   createdAt: number
 }
+
+export type ModerationTargetType = 'outage' | 'userOutage' | 'comment'
+export type ModerationAction = 'dismiss' | 'hide' | 'delete'
+
+/** A flagged outage, user report or comment awaiting moderation */
+export interface ModerationItem {
+  targetType: ModerationTargetType
+  targetId: number
+  flags: number
+  /** Epoch seconds of the most recent flag */
+  lastFlaggedAt: number
+  /** Provider for outages, notes for reports, text for comments */
+  preview: string
+  authorCustomerId: number | null
+  authorEmail: string | null
+  hidden: boolean
+  createdAt: number
+}
+
+export interface ModerationTarget {
+  targetType: ModerationTargetType
+  targetId: number
+}
+
+export interface ModerationActionRequest {
+  action: ModerationAction
+  targets: ModerationTarget[]
+}
+
+export interface BanAuthorRequest {
+  customerId: number
+  reason: string
+}
+
+export interface ModerationAuditEntry {
+  id: number
+  moderatorEmail: string
+  action: ModerationAction | 'ban'
+  targetType: ModerationTargetType | 'customer'
+  targetId: number
+  reason: string | null
+  createdAt: number
+}
@@ -82,3 +82,60 @@ export interface ProviderDirectoryItem {
 }
 
 export type Granularity = 'day' | 'week' | 'month'
+
+/** One restored outage that carried at least one ETR */
+export interface EtrSample {
+  outageId: number
+  provider: string
+  startTs: number
+  endTs: number
+  /** First ETR published for the outage (epoch seconds) */
+  initialEtrTs: number
+  /** Last ETR published before restoration (epoch seconds) */
+  finalEtrTs: number
+  /** Number of times the ETR changed after it was first published */
+  revisions: number
+}
+
+export interface EtrAccuracyStats {
+  provider: string
+  samples: number
+  /** Actual end minus initial ETR, in minutes; positive means restored late */
+  meanErrorMin: number
+  p50ErrorMin: number
+  p90ErrorMin: number
+  /** Share (0–100) of outages whose ETR was revised at least once */
+  revisedPct: number
+  meanRevisions: number
+  /** Share (0–100) restored within the on-time tolerance of the initial ETR */
+  score: number
+}
+
+/** One sustained, restored outage, as used for reliability indices */
+export interface Interruption {
+  outageId: number
+  provider: string
+  startTs: number
+  endTs: number
+  /** Peak customers affected */
+  customers: number
+  /** Customer-minutes of interruption, following partial restorations */
+  customerMinutes: number
+}
+
+export interface ReliabilityIndices {
+  /** System Average Interruption Duration Index, minutes per customer served */
+  saidi: number
+  /** System Average Interruption Frequency Index, interruptions per customer served */
+  saifi: number
+  /** Customer Average Interruption Duration Index, minutes per customer interrupted */
+  caidi: number
+  interruptions: number
+  customersInterrupted: number
+  customerMinutes: number
+}
+
+export interface ReliabilityPeriod extends ReliabilityIndices {
+  /** Period start (epoch seconds) */
+  periodStartTs: number
+}
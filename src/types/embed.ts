@@ -0,0 +1,51 @@
+import type { BoundsLiteral } from '@/lib/utils'
+import type { MapLayerKey } from '@/components/map/types'
+
+export type EmbedTheme = 'light' | 'dark' | 'auto'
+
+/** Options for `/embed/:slug`, carried in the iframe URL query */
+export interface EmbedOptions {
+  theme: EmbedTheme
+  /** Initial viewport; null fits the provider's outages at default zoom */
+  bounds: BoundsLiteral | null
+  /** Enabled layers; null keeps the map defaults */
+  layers: MapLayerKey[] | null
+  /** Show the timeline bar */
+  timeline: boolean
+  /** Keep the map current by streaming live outages */
+  autoRefresh: boolean
+  /** Host page origin; when set, messages are only exchanged with it */
+  origin: string | null
+}
+
+// ─── postMessage protocol ───────────────────────────────────
+// Every message carries `source` so both sides can ignore unrelated traffic.
+
+/** Messages the host page sends into the embed */
+export type EmbedHostMessage =
+  | { source: 'ohub-host'; type: 'setProvider'; provider: string | null }
+  | { source: 'ohub-host'; type: 'setTime'; ts: number | null }
+  | { source: 'ohub-host'; type: 'setBounds'; bounds: BoundsLiteral }
+
+/** Outage summary included in embed events */
+export interface EmbedOutageSummary {
+  id: number
+  provider: string
+  latitude: number
+  longitude: number
+  customerCount: number | null
+  startTs: number
+  endTs: number | null
+}
+
+/** Messages the embed sends to the host page */
+export type EmbedEventMessage =
+  | { source: 'ohub-embed'; type: 'ready'; provider: string | null }
+  | {
+      source: 'ohub-embed'
+      type: 'markerClick'
+      lat: number
+      lng: number
+      outages: EmbedOutageSummary[]
+    }
+  | { source: 'ohub-embed'; type: 'blockChange'; ts: number | null; count: number }
@@ -0,0 +1,35 @@
+export type FeedAnomalyKind = 'volumeDrop' | 'completenessCollapse' | 'staleFetch' | 'workerErrors'
+
+export type FeedAnomalyStatus = 'open' | 'acknowledged' | 'resolved'
+
+/** A detected problem with a provider feed or the analytics worker */
+export interface FeedAnomaly {
+  /** Stable across scans for the same occurrence, e.g. `volumeDrop:Hydro One:1718064000` */
+  id: string
+  kind: FeedAnomalyKind
+  /** Provider name, or null for worker-wide anomalies */
+  provider: string | null
+  message: string
+  /** Epoch seconds */
+  detectedAt: number
+  /** Last scan that still saw the condition (epoch seconds) */
+  lastSeenAt: number
+  status: FeedAnomalyStatus
+  acknowledgedAt: number | null
+  resolvedAt: number | null
+  /** Resolved because a later scan no longer saw the condition */
+  autoResolved: boolean
+  /** Admin who last acknowledged, resolved or reopened it; set by the server */
+  triagedBy: string | null
+}
+
+export type FeedAnomalyAction = 'acknowledge' | 'resolve' | 'reopen'
+
+/** Triage for anomalies; the server stamps the time and the acting admin */
+export interface FeedAnomalyActionRequest {
+  action: FeedAnomalyAction
+  ids: string[]
+}
+
+/** What a scan reports, before it is merged into the anomaly history */
+export type DetectedAnomaly = Pick<FeedAnomaly, 'id' | 'kind' | 'provider' | 'message'>
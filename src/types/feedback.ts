@@ -16,3 +16,33 @@ export interface FeedbackSummaryItem {
 export interface FeedbackSummaryResponse {
   items: FeedbackSummaryItem[]
 }
+
+export interface FeedbackComment {
+  id: number
+  targetType: FeedbackTargetType
+  targetId: number
+  /** Display name; null when posted anonymously */
+  authorName: string | null
+  comment: string
+  /** Epoch seconds */
+  createdAt: number
+  flags: number
+  myFlag: boolean
+  /** Posted by the current user (or this browser, when anonymous) */
+  isMine: boolean
+  /** Optimistic entry not yet confirmed by the server */
+  pending?: boolean
+}
+
+export interface FeedbackCommentsResponse {
+  comments: FeedbackComment[]
+  total: number
+}
+
+/** Loaded comments for one feedback target, newest first */
+export interface FeedbackCommentThread {
+  comments: FeedbackComment[]
+  total: number
+  loading: boolean
+  error: string | null
+}
@@ -35,6 +35,26 @@ export interface OutageResponse {
   maxCount: number
 }
 
+export interface OutageByIdResponse {
+  id: number
+  outage: Outage
+}
+
+/** A stretch of an outage's life during which its reported details stayed the same */
+export interface OutageSnapshot {
+  /** First record time (epoch seconds) showing these details */
+  firstTs: number
+  /** Last record time (epoch seconds) showing these details */
+  lastTs: number
+  customerCount: number | null
+  /** ETR as reported (UTC ISO string when available) */
+  etr: string | null
+  polygon: string | null
+}
+
+/** Connection state of the live outage stream */
+export type OutageStreamStatus = 'idle' | 'connecting' | 'open' | 'error'
+
 export interface OutageBlock {
   ts: number
   indexes: number[]
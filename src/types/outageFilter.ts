@@ -0,0 +1,23 @@
+export type PlannedFilter = 'all' | 'planned' | 'unplanned'
+
+/** Attribute filters applied on top of the provider selection */
+export interface OutageFilters {
+  /** Empty means every provider */
+  providers: string[]
+  /** Empty means every type */
+  outageTypes: string[]
+  /** Empty means every cause */
+  causes: string[]
+  planned: PlannedFilter
+  minCustomers: number | null
+  /** Minimum time since the outage started, in minutes */
+  minDurationMinutes: number | null
+  hasPolygon: boolean
+  hasEtr: boolean
+}
+
+/** A named, saved set of filters */
+export interface OutageFilterPreset {
+  name: string
+  filters: OutageFilters
+}
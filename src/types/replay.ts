@@ -0,0 +1,19 @@
+import type { BoundsLiteral } from '@/lib/utils'
+
+/** One recorded camera position on the replay timeline */
+export interface ReplayKeyframe {
+  /** Block timestamp (epoch seconds) */
+  ts: number
+  bounds: BoundsLiteral
+  zoom: number
+}
+
+/** A saved storm replay: keyframes plus what's needed to reload the same data */
+export interface StormReplay {
+  name: string
+  /** Timeline interval the keyframes were recorded at */
+  interval: string
+  provider: string | null
+  keyframes: ReplayKeyframe[]
+  createdAt: number
+}
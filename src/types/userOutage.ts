@@ -13,6 +13,8 @@ export interface CreateUserOutageRequest {
   contactEmail?: string
   raw?: Record<string, unknown>
   website?: string // honeypot — always send empty
+  /** Per-browser token that lets anonymous reporters manage their reports later */
+  ownerToken?: string
 }
 
 export interface CreateUserOutageResponse {
@@ -39,3 +41,62 @@ export interface UserOutageReport {
 export interface UserOutageReportsResponse {
   reports: UserOutageReport[]
 }
+
+/** A report as its submitter sees it on the "My reports" page */
+export interface MyUserOutageReport extends UserOutageReport {
+  /** When the reporter said power came back (epoch seconds) */
+  restoredTs: number | null
+  updatedAt: number
+}
+
+export interface MyUserOutageReportsResponse {
+  reports: MyUserOutageReport[]
+}
+
+export interface UpdateUserOutageRequest {
+  notes?: string
+  restoredTs?: number
+}
+
+/**
+ * `confirmed`: near an official outage active at the time. `unconfirmed`: made
+ * around the selected time with no official outage nearby. `unchecked`: too far
+ * from the selected time to judge.
+ */
+export type ReportCorroborationStatus = 'confirmed' | 'unconfirmed' | 'unchecked'
+
+/** One official outage a user report was linked to */
+export interface ReportOutageMatch {
+  outageId: number
+  provider: string
+  /** From the report to the outage point; 0 when inside its boundary */
+  distanceKm: number
+  insideBoundary: boolean
+  /** 0–1, blending spatial and temporal closeness */
+  score: number
+}
+
+export interface ReportCorroboration {
+  status: ReportCorroborationStatus
+  /** Best match first */
+  matches: ReportOutageMatch[]
+}
+
+/** A dense burst of user reports that may be an unpublished outage */
+export interface SuspectedOutage {
+  /** Stable while the burst keeps its earliest report: `suspected:<report id>` */
+  id: string
+  reportIds: number[]
+  /** Provider most reports name, if any */
+  provider: string | null
+  /** Earliest and latest report times (epoch seconds) */
+  firstTs: number
+  lastTs: number
+  /** Time of the report that made the burst (the SUSPECTED_MIN_REPORTS-th); shown from here */
+  detectedTs: number
+  center: [number, number]
+  /** Outer ring as [lat, lng] pairs */
+  hull: [number, number][]
+  /** 0–1, from report count, spatial compactness and provider agreement */
+  confidence: number
+}
@@ -0,0 +1,20 @@
+import type { MultiPolygon, Polygon } from 'geojson'
+
+/** Area a watch zone covers: a drawn/geocoded polygon or a point with a radius */
+export type WatchZoneArea =
+  | { kind: 'polygon'; geometry: Polygon | MultiPolygon }
+  | { kind: 'point'; latitude: number; longitude: number; radiusKm: number }
+
+export type WatchZone = WatchZoneArea & {
+  id: number
+  name: string
+  createdAt: number
+}
+
+export type CreateWatchZoneRequest = WatchZoneArea & {
+  name: string
+}
+
+export interface WatchZonesResponse {
+  zones: WatchZone[]
+}